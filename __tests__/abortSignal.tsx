@@ -0,0 +1,129 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+import { resolveAfter } from "./utils/promises";
+
+test("outdated async validations are aborted", async () => {
+  const signals: AbortSignal[] = [];
+
+  const Test = () => {
+    const { Field, resetForm } = useForm({
+      email: {
+        strategy: "onChange",
+        initialValue: "",
+        validate: (value, { signal }) => {
+          signals.push(signal);
+
+          return new Promise<string | void>((resolve, reject) => {
+            signal.addEventListener("abort", () => reject(new Error("aborted")));
+            void resolveAfter(100).then(() => resolve(value === "taken" ? "taken" : undefined));
+          });
+        },
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="email">
+          {({ error, onChange, valid, validating, value }) => (
+            <>
+              <label htmlFor="email">Email</label>
+
+              <input
+                type="text"
+                id="email"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {valid && <div>valid</div>}
+              {validating && <div>validating</div>}
+              {error && <div>error</div>}
+            </>
+          )}
+        </Field>
+
+        <button onClick={() => resetForm()}>Reset</button>
+      </form>
+    );
+  };
+
+  const { unmount } = render(<Test />);
+
+  const input = await screen.findByLabelText("Email");
+
+  fireEvent.input(input, { target: { value: "tak" } });
+  fireEvent.input(input, { target: { value: "taken" } });
+
+  expect(signals.map((signal) => signal.aborted)).toEqual([true, false]);
+  await screen.findByText("error");
+
+  fireEvent.input(input, { target: { value: "free" } });
+  fireEvent.click(await screen.findByText("Reset"));
+
+  expect(signals.map((signal) => signal.aborted)).toEqual([true, false, true]);
+
+  fireEvent.input(input, { target: { value: "free" } });
+  unmount();
+
+  expect(signals.map((signal) => signal.aborted)).toEqual([true, false, true, true]);
+});
+
+test("validations aborted on unmount don't leave fields validating", async () => {
+  const Test = () => {
+    const [mounted, setMounted] = React.useState(true);
+
+    const { Field, getFieldState } = useForm({
+      email: {
+        strategy: "onChange",
+        initialValue: "",
+        validate: () => resolveAfter(100).then(() => undefined),
+      },
+    });
+
+    const { validating } = getFieldState("email");
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        {mounted && (
+          <Field name="email">
+            {({ onChange, value }) => (
+              <>
+                <label htmlFor="email">Email</label>
+
+                <input
+                  type="text"
+                  id="email"
+                  value={value}
+                  onChange={(e) => {
+                    e.preventDefault();
+                    onChange(e.target.value);
+                  }}
+                />
+              </>
+            )}
+          </Field>
+        )}
+
+        <div>validating: {String(validating)}</div>
+        <button onClick={() => setMounted((mounted) => !mounted)}>Toggle</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("Email"), { target: { value: "nicolas" } });
+  await screen.findByText("validating: true");
+
+  fireEvent.click(await screen.findByText("Toggle"));
+  fireEvent.click(await screen.findByText("Toggle"));
+
+  await screen.findByLabelText("Email");
+  await resolveAfter(150);
+  expect(await screen.findByText("validating: false")).toBeDefined();
+});
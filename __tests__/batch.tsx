@@ -0,0 +1,122 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+test("setValues validates each updated field once", async () => {
+  const validations: string[] = [];
+
+  const Test = () => {
+    const { Field, batch, setFieldError, setValues } = useForm({
+      street: {
+        strategy: "onChange",
+        initialValue: "",
+        validate: (value) => {
+          validations.push("street");
+          if (value === "") {
+            return "Required";
+          }
+        },
+      },
+      city: {
+        strategy: "onChange",
+        initialValue: "",
+        validate: (value) => {
+          validations.push("city");
+          if (value === "") {
+            return "Required";
+          }
+        },
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="street">
+          {({ error, value }) => (
+            <div>
+              street: {value} ({error ?? "no error"})
+            </div>
+          )}
+        </Field>
+
+        <Field name="city">
+          {({ error, value }) => (
+            <div>
+              city: {value} ({error ?? "no error"})
+            </div>
+          )}
+        </Field>
+
+        <button onClick={() => setValues({ street: "Rue de Rivoli", city: "Paris" })}>Fill</button>
+
+        <button
+          onClick={() =>
+            batch(() => {
+              setValues({ street: "", city: "" }, { validate: true });
+              setValues({ city: "Lyon" }, { validate: true });
+              setFieldError("street", "Unknown street");
+            })
+          }
+        >
+          Update
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Fill"));
+
+  await screen.findByText("street: Rue de Rivoli (no error)");
+  await screen.findByText("city: Paris (no error)");
+  expect(validations).toEqual(["street", "city"]);
+
+  fireEvent.click(await screen.findByText("Update"));
+
+  await screen.findByText("street: (Unknown street)");
+  await screen.findByText("city: Lyon (no error)");
+  expect(validations).toEqual(["street", "city", "city"]);
+});
+
+test("batch rolls back updates when its callback throws", async () => {
+  const Test = () => {
+    const { Field, batch, setFieldValue } = useForm({
+      firstName: { initialValue: "Nicolas" },
+      lastName: { initialValue: "Saison" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">{({ value }) => <div>firstName: {value}</div>}</Field>
+        <Field name="lastName">{({ value }) => <div>lastName: {value}</div>}</Field>
+
+        <button
+          onClick={() => {
+            try {
+              batch(
+                () => {
+                  setFieldValue("firstName", "Mathieu");
+                  throw new Error("Invalid template");
+                },
+                { rollback: true },
+              );
+            } catch {
+              setFieldValue("lastName", "Acthernoene");
+            }
+          }}
+        >
+          Apply template
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Apply template"));
+
+  await screen.findByText("lastName: Acthernoene");
+  await screen.findByText("firstName: Nicolas");
+});
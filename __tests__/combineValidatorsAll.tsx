@@ -0,0 +1,113 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { FormConfig, combineValidatorsAll, useForm } from "../src";
+import { resolveAfter } from "./utils/promises";
+
+const validateLength = (value: string) => {
+  if (value.length < 8) {
+    return "8 characters";
+  }
+};
+
+const validateDigit = (value: string) =>
+  resolveAfter(50).then(() => {
+    if (!/\d/.test(value)) {
+      return "One digit";
+    }
+  });
+
+const validateSymbol = (value: string) => {
+  if (!/[^a-z0-9]/i.test(value)) {
+    return "One symbol";
+  }
+};
+
+test("combineValidatorsAll collects every error, in declaration order", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, submitForm } = useForm({
+      password: {
+        strategy: "onChange",
+        initialValue: "",
+        validate: combineValidatorsAll(validateLength, validateDigit, validateSymbol),
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="password">
+          {({ error, errors, onChange, valid, value }) => (
+            <>
+              <label htmlFor="password">Password</label>
+
+              <input
+                type="text"
+                id="password"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {valid && <div>Password valid</div>}
+              {error && <div>First error: {error}</div>}
+              {errors.length > 0 && <div>Errors: {errors.join(", ")}</div>}
+            </>
+          )}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("Password");
+
+  fireEvent.input(input, { target: { value: "abc" } });
+  await screen.findByText("Errors: 8 characters, One digit, One symbol");
+  await screen.findByText("First error: 8 characters");
+
+  fireEvent.input(input, { target: { value: "abcdefgh!" } });
+  await screen.findByText("Errors: One digit");
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await resolveAfter(100);
+  expect(submittedValues).toBe(undefined);
+
+  fireEvent.input(input, { target: { value: "abcdefgh!1" } });
+  await screen.findByText("Password valid");
+  expect(screen.queryByText(/Errors/)).toBe(null);
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await resolveAfter(100);
+  expect(submittedValues).toEqual({ password: "abcdefgh!1" });
+});
+
+test("errors lists can only be created using combineValidatorsAll", () => {
+  const config: FormConfig<{ password: string }> = {
+    password: { initialValue: "", validate: combineValidatorsAll(validateLength, validateSymbol) },
+  };
+
+  const invalidConfig: FormConfig<{ password: string }> = {
+    // @ts-expect-error a plain object is not an errors list
+    password: { initialValue: "", validate: () => ({ errors: ["8 characters"] }) },
+  };
+
+  expect(config.password.validate?.("", {} as never)).toEqual({
+    errors: ["8 characters", "One symbol"],
+  });
+  expect(invalidConfig.password.initialValue).toBe("");
+});
@@ -0,0 +1,94 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { Field, FieldsListener, FormProvider, useForm, useFormContext } from "../src";
+
+type AddressValues = { "address.street": string; "address.city": string };
+
+const AddressSection = () => {
+  const { Field } = useFormContext<AddressValues>();
+
+  return (
+    <Field name="address.street">
+      {({ onChange, value }) => (
+        <>
+          <label htmlFor="street">Street</label>
+
+          <input
+            type="text"
+            id="street"
+            value={value}
+            onChange={(e) => {
+              e.preventDefault();
+              onChange(e.target.value);
+            }}
+          />
+        </>
+      )}
+    </Field>
+  );
+};
+
+test("nested components access the form through its context", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const form = useForm({
+      firstName: { initialValue: "Nicolas" },
+      "address.street": { initialValue: "" },
+      "address.city": { initialValue: "Paris" },
+    });
+
+    return (
+      <FormProvider form={form}>
+        <AddressSection />
+
+        <Field<AddressValues, "address.city"> name="address.city">
+          {({ value }) => <div>city: {value}</div>}
+        </Field>
+
+        <FieldsListener<AddressValues, "address.street"> names={["address.street"]}>
+          {(states) => <div>street: {states["address.street"].value}</div>}
+        </FieldsListener>
+
+        <button
+          onClick={() =>
+            form.submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </FormProvider>
+    );
+  };
+
+  render(<Test />);
+
+  await screen.findByText("city: Paris");
+
+  fireEvent.input(await screen.findByLabelText("Street"), {
+    target: { value: "Rue de Rivoli" },
+  });
+
+  await screen.findByText("street: Rue de Rivoli");
+  fireEvent.click(await screen.findByText("Submit"));
+
+  expect(submittedValues).toEqual({
+    address: { street: "Rue de Rivoli", city: "Paris" },
+  });
+});
+
+test("useFormContext throws outside of a FormProvider", () => {
+  const Test = () => {
+    useFormContext();
+    return null;
+  };
+
+  const consoleError = console.error;
+  console.error = () => {};
+
+  expect(() => render(<Test />)).toThrow("useFormContext must be used within a FormProvider");
+  console.error = consoleError;
+});
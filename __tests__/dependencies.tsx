@@ -0,0 +1,87 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { test } from "vitest";
+import { useForm } from "../src";
+
+test("a field is re-validated when one of its dependencies changes", async () => {
+  const Test = () => {
+    const { Field } = useForm({
+      password: {
+        strategy: "onChange",
+        initialValue: "",
+      },
+      confirmPassword: {
+        strategy: "onChange",
+        initialValue: "",
+        dependsOn: ["password"],
+        validate: (value, { getFieldState }) => {
+          if (value !== getFieldState("password").value) {
+            return "Passwords don't match";
+          }
+        },
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="password">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="password">Password</label>
+
+              <input
+                type="text"
+                id="password"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+            </>
+          )}
+        </Field>
+
+        <Field name="confirmPassword">
+          {({ error, onChange, valid, value }) => (
+            <>
+              <label htmlFor="confirmPassword">Confirm password</label>
+
+              <input
+                type="text"
+                id="confirmPassword"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {!(valid || error) && <div>idle</div>}
+              {valid && <div>valid</div>}
+              {error && <div>error</div>}
+            </>
+          )}
+        </Field>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const passwordInput = await screen.findByLabelText("Password");
+  const confirmPasswordInput = await screen.findByLabelText("Confirm password");
+
+  // confirmPassword is untouched: no validation yet
+  fireEvent.input(passwordInput, { target: { value: "secret" } });
+  await screen.findByText("idle");
+
+  fireEvent.input(confirmPasswordInput, { target: { value: "secret" } });
+  await screen.findByText("valid");
+
+  fireEvent.input(passwordInput, { target: { value: "secret!" } });
+  await screen.findByText("error");
+
+  fireEvent.input(passwordInput, { target: { value: "secret" } });
+  await screen.findByText("valid");
+});
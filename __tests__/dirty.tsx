@@ -0,0 +1,78 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+test("dirty state is tracked per field and for the whole form", async () => {
+  let submittedDirtyValues: unknown;
+
+  const Test = () => {
+    const { Field, getDirtyValues, isDirty, submitForm } = useForm({
+      firstName: { initialValue: "Nicolas" },
+      lastName: { initialValue: "Saison" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ dirty, onChange, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>firstName {dirty ? "dirty" : "pristine"}</div>
+            </>
+          )}
+        </Field>
+
+        <Field name="lastName">{() => null}</Field>
+
+        <div>form {isDirty ? "dirty" : "pristine"}</div>
+
+        <button
+          onClick={() =>
+            submitForm((values, { dirtyValues }) => {
+              expect(getDirtyValues()).toEqual(dirtyValues);
+              submittedDirtyValues = dirtyValues;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("First name");
+  const submitButton = await screen.findByText("Submit");
+
+  await screen.findByText("firstName pristine");
+  await screen.findByText("form pristine");
+
+  fireEvent.input(input, { target: { value: "Mathieu" } });
+
+  await screen.findByText("firstName dirty");
+  await screen.findByText("form dirty");
+
+  fireEvent.click(submitButton);
+  expect(submittedDirtyValues).toEqual({ firstName: "Mathieu" });
+
+  fireEvent.input(input, { target: { value: "Nicolas" } });
+
+  await screen.findByText("firstName pristine");
+  await screen.findByText("form pristine");
+
+  fireEvent.click(submitButton);
+  expect(submittedDirtyValues).toEqual({});
+});
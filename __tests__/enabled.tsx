@@ -0,0 +1,157 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+import { resolveAfter } from "./utils/promises";
+
+test("disabled fields are excluded from validation and submission", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, submitForm } = useForm({
+      hasCompany: { initialValue: false },
+      companyName: {
+        strategy: "onChange",
+        initialValue: "",
+        enabled: ({ getFieldState }) => getFieldState("hasCompany").value,
+        validate: (value) => {
+          if (value === "") {
+            return "Required";
+          }
+        },
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="hasCompany">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="hasCompany">Has company</label>
+
+              <input
+                type="checkbox"
+                id="hasCompany"
+                checked={value}
+                onChange={(e) => onChange(e.target.checked)}
+              />
+            </>
+          )}
+        </Field>
+
+        <Field name="companyName">
+          {({ disabled, error }) => (
+            <>
+              <div>companyName {disabled ? "disabled" : "enabled"}</div>
+              {error && <div>companyName error: {error}</div>}
+            </>
+          )}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const checkbox = await screen.findByLabelText("Has company");
+  const submitButton = await screen.findByText("Submit");
+
+  await screen.findByText("companyName disabled");
+
+  fireEvent.click(submitButton);
+  expect(submittedValues).toEqual({ hasCompany: false });
+
+  fireEvent.click(checkbox);
+  await screen.findByText("companyName enabled");
+
+  fireEvent.click(submitButton);
+  await screen.findByText("companyName error: Required");
+
+  fireEvent.click(checkbox);
+  await screen.findByText("companyName disabled");
+  expect(screen.queryByText("companyName error: Required")).toBe(null);
+});
+
+test("debounced disabled fields are not left validating", async () => {
+  const Test = () => {
+    const { Field } = useForm({
+      companyName: {
+        strategy: "onChange",
+        initialValue: "",
+        debounceInterval: 50,
+        enabled: () => false,
+        validate: () => "Invalid",
+      },
+    });
+
+    return (
+      <Field name="companyName">
+        {({ onChange, validating, value }) => (
+          <>
+            <label htmlFor="companyName">Company name</label>
+
+            <input
+              type="text"
+              id="companyName"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+            />
+
+            <div>validating: {String(validating)}</div>
+          </>
+        )}
+      </Field>
+    );
+  };
+
+  render(<Test />);
+
+  const input = (await screen.findByLabelText("Company name")) as HTMLInputElement;
+  fireEvent.input(input, { target: { value: "Swan" } });
+
+  expect(input.value).toBe("Swan");
+  await resolveAfter(100);
+  await screen.findByText("validating: false");
+});
+
+test("disabled fields subscribers are notified of value updates", async () => {
+  const Test = () => {
+    const { Field, setFieldValue, setValues } = useForm({
+      companyName: {
+        initialValue: "",
+        enabled: () => false,
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="companyName">{({ value }) => <div>companyName: {value}</div>}</Field>
+
+        <button onClick={() => setFieldValue("companyName", "Acme")}>Set Acme</button>
+        <button onClick={() => setFieldValue("companyName", "Globex")}>Set Globex</button>
+        <button onClick={() => setValues({ companyName: "Initech" })}>Set Initech</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Set Acme"));
+  await screen.findByText("companyName: Acme");
+
+  fireEvent.click(await screen.findByText("Set Globex"));
+  await screen.findByText("companyName: Globex");
+
+  fireEvent.click(await screen.findByText("Set Initech"));
+  await screen.findByText("companyName: Initech");
+});
@@ -0,0 +1,194 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { FormEvent, useForm } from "../src";
+import { resolveAfter } from "./utils/promises";
+
+type Values = { firstName: string; email: string };
+
+test("form events are emitted on state transitions", async () => {
+  const events: FormEvent<Values>[] = [];
+  const subscribedEvents: FormEvent<Values>[] = [];
+
+  const Test = () => {
+    const { Field, subscribeEvents, submitForm } = useForm<Values>(
+      {
+        firstName: {
+          strategy: "onBlur",
+          initialValue: "",
+          validate: (value) => {
+            if (value.length < 3) {
+              return "Must be at least 3 characters";
+            }
+          },
+        },
+        email: {
+          strategy: "onChange",
+          initialValue: "",
+          validate: (value) =>
+            resolveAfter(100).then(() => (value === "" ? "Required" : undefined)),
+        },
+      },
+      {
+        onEvent: (event) => events.push(event),
+      },
+    );
+
+    React.useEffect(() => subscribeEvents((event) => subscribedEvents.push(event)), []);
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ error, onBlur, onChange, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onBlur={onBlur}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {error && <div>firstName error</div>}
+            </>
+          )}
+        </Field>
+
+        <Field name="email">
+          {({ onChange, valid, value }) => (
+            <>
+              <label htmlFor="email">Email</label>
+
+              <input
+                type="text"
+                id="email"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {valid && <div>email valid</div>}
+            </>
+          )}
+        </Field>
+
+        <button onClick={() => submitForm(() => {})}>Submit</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const firstNameInput = await screen.findByLabelText("First name");
+
+  fireEvent.input(firstNameInput, { target: { value: "Ni" } });
+  fireEvent.blur(firstNameInput);
+  await screen.findByText("firstName error");
+
+  expect(events.map(({ type }) => type)).toEqual([
+    "change",
+    "validateStart",
+    "validateEnd",
+    "blur",
+    "talkative",
+    "validateStart",
+    "validateEnd",
+  ]);
+
+  expect(events[2]).toMatchObject({
+    type: "validateEnd",
+    name: "firstName",
+    error: "Must be at least 3 characters",
+    prevState: { value: "Ni", talkative: false, validity: { tag: "unknown" } },
+    nextState: {
+      value: "Ni",
+      talkative: false,
+      validity: { tag: "invalid", error: "Must be at least 3 characters" },
+    },
+  });
+
+  events.length = 0;
+
+  const emailInput = await screen.findByLabelText("Email");
+
+  fireEvent.input(emailInput, { target: { value: "a" } });
+  fireEvent.input(emailInput, { target: { value: "ab" } });
+  await screen.findByText("email valid");
+
+  expect(events).toContainEqual(
+    expect.objectContaining({ type: "validationDiscarded", name: "email", reason: "aborted" }),
+  );
+
+  events.length = 0;
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await resolveAfter(150);
+
+  expect(events[0]).toMatchObject({ type: "submitStart" });
+  expect(events[events.length - 1]).toMatchObject({ type: "submitEnd", formStatus: "submitted" });
+  expect(subscribedEvents.length).toBeGreaterThan(0);
+});
+
+test("validationDiscarded is emitted when an aborted validation rejects", async () => {
+  const events: FormEvent<{ email: string }>[] = [];
+
+  const Test = () => {
+    const { Field } = useForm(
+      {
+        email: {
+          strategy: "onChange",
+          initialValue: "",
+          // Rejects on abort, like fetch
+          validate: (_value, { signal }) =>
+            new Promise<undefined>((resolve, reject) => {
+              const timeout = setTimeout(() => resolve(undefined), 50);
+
+              signal.addEventListener("abort", () => {
+                clearTimeout(timeout);
+                reject(new Error("Aborted"));
+              });
+            }),
+        },
+      },
+      {
+        onEvent: (event) => events.push(event),
+      },
+    );
+
+    return (
+      <Field name="email">
+        {({ onChange, valid, value }) => (
+          <>
+            <label htmlFor="email">Email</label>
+            <input
+              type="text"
+              id="email"
+              value={value}
+              onChange={(e) => onChange(e.target.value)}
+            />
+            {valid && <div>email valid</div>}
+          </>
+        )}
+      </Field>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("Email");
+
+  fireEvent.input(input, { target: { value: "a" } });
+  fireEvent.input(input, { target: { value: "ab" } });
+  await screen.findByText("email valid");
+
+  expect(events).toContainEqual(
+    expect.objectContaining({ type: "validationDiscarded", name: "email", reason: "aborted" }),
+  );
+});
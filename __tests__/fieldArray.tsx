@@ -0,0 +1,131 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+test("field array items keep their own state and are collected on submit", async () => {
+  let submittedValues: unknown;
+  let submittedItemErrors: unknown;
+
+  const Test = () => {
+    const { ArrayField, submitForm } = useForm({
+      beneficiaries: {
+        initialValue: ["Nicolas"],
+        item: {
+          strategy: "onChange",
+          validate: (value) => {
+            if (value.length < 3) {
+              return "Must be at least 3 characters";
+            }
+          },
+        },
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <ArrayField name="beneficiaries">
+          {({ items, append, remove, swap }) => (
+            <>
+              {items.map(({ key, index, Field }) => (
+                <Field key={key}>
+                  {({ ref, error, onBlur, onChange, value }) => (
+                    <>
+                      <label htmlFor={key}>Beneficiary {index}</label>
+
+                      <input
+                        ref={ref}
+                        type="text"
+                        id={key}
+                        value={value}
+                        onBlur={onBlur}
+                        onChange={(e) => {
+                          e.preventDefault();
+                          onChange(e.target.value);
+                        }}
+                      />
+
+                      {error && <div>error {index}</div>}
+                    </>
+                  )}
+                </Field>
+              ))}
+
+              <button onClick={() => append("")}>Append</button>
+              <button onClick={() => remove(0)}>Remove first</button>
+              <button onClick={() => swap(0, 1)}>Swap</button>
+            </>
+          )}
+        </ArrayField>
+
+        <button
+          onClick={() =>
+            submitForm(
+              (values) => {
+                submittedValues = values;
+              },
+              (_errors, { itemErrors }) => {
+                submittedItemErrors = itemErrors;
+              },
+            )
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const appendButton = await screen.findByText("Append");
+  const submitButton = await screen.findByText("Submit");
+
+  fireEvent.click(appendButton);
+
+  const secondInput = await screen.findByLabelText("Beneficiary 1");
+
+  fireEvent.input(secondInput, { target: { value: "Ni" } });
+  await screen.findByText("error 1");
+
+  fireEvent.click(submitButton);
+
+  expect(submittedItemErrors).toEqual({
+    beneficiaries: [undefined, "Must be at least 3 characters"],
+  });
+  expect(document.activeElement).toBe(secondInput);
+
+  fireEvent.click(await screen.findByText("Swap"));
+
+  // The item keeps its state (and its input) when moved
+  expect(await screen.findByLabelText("Beneficiary 0")).toBe(secondInput);
+  await screen.findByText("error 0");
+
+  fireEvent.input(secondInput, { target: { value: "Frederic" } });
+  fireEvent.click(submitButton);
+
+  expect(submittedValues).toEqual({ beneficiaries: ["Frederic", "Nicolas"] });
+
+  fireEvent.click(await screen.findByText("Remove first"));
+  fireEvent.click(submitButton);
+
+  expect(submittedValues).toEqual({ beneficiaries: ["Nicolas"] });
+});
+
+test("field arrays without item config render without items", async () => {
+  const Test = () => {
+    const { ArrayField } = useForm({
+      tags: { initialValue: ["a", "b"] },
+    });
+
+    return <ArrayField name="tags">{({ items }) => <div>items: {items.length}</div>}</ArrayField>;
+  };
+
+  const consoleError = console.error;
+  console.error = () => {};
+
+  render(<Test />);
+  await screen.findByText("items: 0");
+
+  console.error = consoleError;
+});
@@ -1,6 +1,6 @@
 import { fireEvent, render, screen } from "@testing-library/react";
 import * as React from "react";
-import { test } from "vitest";
+import { expect, test } from "vitest";
 import { useForm } from "../src";
 import { resolveAfter } from "./utils/promises";
 
@@ -203,3 +203,73 @@ test("formStatus evolve though time with async submission", async () => {
   fireEvent.click(resetButton);
   await screen.findByText("formStatus: untouched");
 });
+
+test("formStatus goes back to editing when the submission is cancelled", async () => {
+  let submissionSignal: AbortSignal | undefined;
+
+  const Test = () => {
+    const { Field, cancelSubmission, formStatus, submitForm } = useForm({
+      firstName: {
+        strategy: "onSuccess",
+        initialValue: "",
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+            </>
+          )}
+        </Field>
+
+        <div>formStatus: {formStatus}</div>
+
+        <button onClick={(e) => cancelSubmission()}>Cancel</button>
+        <button
+          onClick={(e) =>
+            submitForm((values, { signal }) => {
+              submissionSignal = signal;
+              return resolveAfter(100);
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("First name");
+  const cancelButton = await screen.findByText("Cancel");
+  const submitButton = await screen.findByText("Submit");
+
+  fireEvent.input(input, {
+    target: { value: "Nicolas" },
+  });
+
+  await screen.findByText("formStatus: editing");
+  fireEvent.click(submitButton);
+  await screen.findByText("formStatus: submitting");
+  fireEvent.click(cancelButton);
+  await screen.findByText("formStatus: editing");
+
+  expect(submissionSignal?.aborted).toBe(true);
+
+  await resolveAfter(150);
+  await screen.findByText("formStatus: editing");
+});
@@ -0,0 +1,92 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+test("form-level validation errors are merged into fields states", async () => {
+  let submittedErrors: unknown;
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, formError, submitForm } = useForm(
+      {
+        email: { initialValue: "" },
+        phone: { initialValue: "" },
+      },
+      {
+        validateForm: ({ email, phone }) => {
+          if (email === "" && phone === "") {
+            return {
+              fieldErrors: { email: "Email or phone is required" },
+              formError: "At least one contact method is required",
+            };
+          }
+        },
+      },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="email">
+          {({ ref, error, onChange, value }) => (
+            <>
+              <label htmlFor="email">Email</label>
+
+              <input
+                ref={ref}
+                type="text"
+                id="email"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {error && <div>email error: {error}</div>}
+            </>
+          )}
+        </Field>
+
+        <Field name="phone">{() => null}</Field>
+
+        {formError && <div>form error: {formError}</div>}
+
+        <button
+          onClick={() =>
+            submitForm(
+              (values) => {
+                submittedValues = values;
+              },
+              (errors) => {
+                submittedErrors = errors;
+              },
+            )
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("Email");
+  const submitButton = await screen.findByText("Submit");
+
+  fireEvent.click(submitButton);
+
+  await screen.findByText("email error: Email or phone is required");
+  await screen.findByText("form error: At least one contact method is required");
+
+  expect(submittedErrors).toEqual({ email: "Email or phone is required", phone: undefined });
+  expect(document.activeElement).toBe(input);
+
+  fireEvent.input(input, { target: { value: "mathieu@swan.io" } });
+  fireEvent.click(submitButton);
+
+  expect(submittedValues).toEqual({ email: "mathieu@swan.io", phone: "" });
+  expect(screen.queryByText(/form error/)).toBeNull();
+  expect(screen.queryByText(/email error/)).toBeNull();
+});
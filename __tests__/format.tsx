@@ -0,0 +1,138 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+const formatCardNumber = (value: string) => (value.match(/\d{1,4}/g) ?? []).join(" ");
+const parseCardNumber = (text: string) => text.replace(/\D/g, "").slice(0, 16);
+
+const setInputText = (input: HTMLInputElement, text: string, caret: number) => {
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, "value")?.set?.call(input, text);
+  input.setSelectionRange(caret, caret);
+  fireEvent.input(input);
+};
+
+test("fields display formatted text and store parsed values", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, submitForm } = useForm({
+      cardNumber: {
+        initialValue: "4242",
+        format: formatCardNumber,
+        parse: parseCardNumber,
+        validate: (value) => {
+          if (value.length !== 16) {
+            return "Card number is invalid";
+          }
+        },
+      },
+      quantity: {
+        initialValue: 1,
+        parse: (text) => Number(text.replace(/\D/g, "")),
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="cardNumber">
+          {({ displayValue, onChangeText, ref, value }) => (
+            <>
+              <label htmlFor="cardNumber">Card number</label>
+
+              <input
+                ref={ref}
+                type="text"
+                id="cardNumber"
+                value={displayValue}
+                onChange={(e) => onChangeText(e.target.value)}
+              />
+
+              <div>cardNumber value: {value}</div>
+            </>
+          )}
+        </Field>
+
+        <Field name="quantity">
+          {({ displayValue, onChangeText, ref }) => (
+            <>
+              <label htmlFor="quantity">Quantity</label>
+
+              <input
+                ref={ref}
+                type="text"
+                id="quantity"
+                value={displayValue}
+                onChange={(e) => onChangeText(e.target.value)}
+              />
+            </>
+          )}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const cardNumber = (await screen.findByLabelText("Card number")) as HTMLInputElement;
+  const quantity = (await screen.findByLabelText("Quantity")) as HTMLInputElement;
+
+  expect(cardNumber.value).toBe("4242");
+
+  fireEvent.input(cardNumber, { target: { value: "4242 4242-4242 4242" } });
+  await screen.findByText("cardNumber value: 4242424242424242");
+  expect(cardNumber.value).toBe("4242 4242 4242 4242");
+
+  fireEvent.input(quantity, { target: { value: "12" } });
+  expect(quantity.value).toBe("12");
+
+  fireEvent.click(await screen.findByText("Submit"));
+  expect(submittedValues).toEqual({ cardNumber: "4242424242424242", quantity: 12 });
+});
+
+test("caret position is preserved when the formatter inserts characters", async () => {
+  const Test = () => {
+    const { Field } = useForm({
+      cardNumber: {
+        initialValue: "42424242",
+        format: formatCardNumber,
+        parse: parseCardNumber,
+      },
+    });
+
+    return (
+      <Field name="cardNumber">
+        {({ displayValue, onChangeText, ref }) => (
+          <input
+            ref={ref}
+            type="text"
+            aria-label="Card number"
+            value={displayValue}
+            onChange={(e) => onChangeText(e.target.value)}
+          />
+        )}
+      </Field>
+    );
+  };
+
+  render(<Test />);
+
+  const input = (await screen.findByLabelText("Card number")) as HTMLInputElement;
+  expect(input.value).toBe("4242 4242");
+
+  // Types "9" right before the separator
+  setInputText(input, "42429 4242", 5);
+
+  expect(input.value).toBe("4242 9424 2");
+  expect(input.selectionStart).toBe(6);
+});
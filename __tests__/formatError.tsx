@@ -0,0 +1,206 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { ValidationError, combineValidatorsAll, minLength, pattern, useForm, warn } from "../src";
+
+const translations = {
+  en: {
+    minLength: ({ min }: { min: number }) => `Must be at least ${min} characters`,
+  },
+  fr: {
+    minLength: ({ min }: { min: number }) => `Doit contenir au moins ${min} caractères`,
+  },
+};
+
+test("errors are formatted again when formatError changes, without re-running validators", async () => {
+  let validations = 0;
+
+  const Test = () => {
+    const [locale, setLocale] = React.useState<"en" | "fr">("en");
+
+    const { Field } = useForm<{ password: string }, ValidationError>(
+      {
+        password: {
+          strategy: "onChange",
+          initialValue: "",
+          validate: (value) => {
+            validations++;
+            return minLength(8)(value);
+          },
+        },
+      },
+      {
+        formatError: (error) =>
+          error.code === "minLength" ? translations[locale].minLength(error.params) : error.code,
+      },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="password">
+          {({ error, formattedError, onChange, value }) => (
+            <>
+              <label htmlFor="password">Password</label>
+
+              <input
+                type="text"
+                id="password"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {error && <div>error code: {error.code}</div>}
+              {formattedError && <div>message: {formattedError}</div>}
+            </>
+          )}
+        </Field>
+
+        <button onClick={() => setLocale("fr")}>Français</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("Password"), { target: { value: "abc" } });
+
+  await screen.findByText("error code: minLength");
+  await screen.findByText("message: Must be at least 8 characters");
+
+  const validationsBeforeSwitch = validations;
+  fireEvent.click(await screen.findByText("Français"));
+
+  await screen.findByText("message: Doit contenir au moins 8 caractères");
+  expect(validations).toBe(validationsBeforeSwitch);
+});
+
+test("errors lists, warnings and form errors are formatted too", async () => {
+  const Test = () => {
+    const { Field, formattedFormError, submitForm } = useForm<
+      { password: string; nickname: string },
+      ValidationError
+    >(
+      {
+        password: {
+          strategy: "onChange",
+          initialValue: "",
+          validate: combineValidatorsAll(minLength(8), pattern(/\d/)),
+        },
+        nickname: {
+          strategy: "onChange",
+          initialValue: "",
+          validate: (value) => {
+            if (value.length < 3) {
+              return warn<ValidationError>({ code: "minLength", params: { min: 3 } });
+            }
+          },
+        },
+      },
+      {
+        validateForm: () => ({ formError: { code: "required", params: {} } }),
+        formatError: (error) => `message ${error.code}`,
+      },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="password">
+          {({ formattedErrors, onChange, value }) => (
+            <>
+              <label htmlFor="password">Password</label>
+
+              <input
+                type="text"
+                id="password"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>password: {formattedErrors.join(", ")}</div>
+            </>
+          )}
+        </Field>
+
+        <Field name="nickname">
+          {({ formattedWarning, onChange, value }) => (
+            <>
+              <label htmlFor="nickname">Nickname</label>
+
+              <input
+                type="text"
+                id="nickname"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {formattedWarning && <div>nickname: {formattedWarning}</div>}
+            </>
+          )}
+        </Field>
+
+        {formattedFormError && <div>form: {formattedFormError}</div>}
+        <button onClick={() => submitForm(() => {})}>Submit</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("Password"), { target: { value: "abc" } });
+  await screen.findByText("password: message minLength, message pattern");
+
+  fireEvent.input(await screen.findByLabelText("Nickname"), { target: { value: "Ni" } });
+  await screen.findByText("nickname: message minLength");
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await screen.findByText("form: message required");
+});
+
+test("errors are not formatted without formatError", async () => {
+  const Test = () => {
+    const { Field } = useForm<{ password: string }, ValidationError>({
+      password: { strategy: "onChange", initialValue: "", validate: minLength(8) },
+    });
+
+    return (
+      <Field name="password">
+        {({ error, formattedError, formattedErrors, onChange, value }) => (
+          <>
+            <label htmlFor="password">Password</label>
+
+            <input
+              type="text"
+              id="password"
+              value={value}
+              onChange={(e) => {
+                e.preventDefault();
+                onChange(e.target.value);
+              }}
+            />
+
+            {error && <div>error code: {error.code}</div>}
+            <div>formatted: {String(formattedError)}</div>
+            <div>formatted errors: {formattedErrors.length}</div>
+          </>
+        )}
+      </Field>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("Password"), { target: { value: "abc" } });
+
+  await screen.findByText("error code: minLength");
+  await screen.findByText("formatted: undefined");
+  await screen.findByText("formatted errors: 0");
+});
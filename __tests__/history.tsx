@@ -0,0 +1,233 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+test("fields values changes can be undone and redone", async () => {
+  const Test = () => {
+    const { Field, canRedo, canUndo, clearHistory, redo, undo } = useForm(
+      {
+        firstName: {
+          strategy: "onChange",
+          initialValue: "",
+          validate: (value) => {
+            if (value === "") {
+              return "Required";
+            }
+          },
+        },
+        lastName: { initialValue: "" },
+      },
+      { history: { coalesceInterval: 1000 } },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ error, onChange, ref, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                ref={ref}
+                type="text"
+                id="firstName"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>
+                firstName: {value} ({error ?? "no error"})
+              </div>
+            </>
+          )}
+        </Field>
+
+        <Field name="lastName">
+          {({ onChange, ref, value }) => (
+            <>
+              <label htmlFor="lastName">Last name</label>
+
+              <input
+                ref={ref}
+                type="text"
+                id="lastName"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>lastName: {value}</div>
+            </>
+          )}
+        </Field>
+
+        <div>
+          {canUndo ? "can undo" : "cannot undo"}, {canRedo ? "can redo" : "cannot redo"}
+        </div>
+
+        <button onClick={() => undo()}>Undo</button>
+        <button onClick={() => redo()}>Redo</button>
+        <button onClick={() => clearHistory()}>Clear</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const firstNameInput = await screen.findByLabelText("First name");
+  const lastNameInput = await screen.findByLabelText("Last name");
+  const undoButton = await screen.findByText("Undo");
+  const redoButton = await screen.findByText("Redo");
+
+  await screen.findByText("cannot undo, cannot redo");
+
+  // Keystrokes are coalesced
+  fireEvent.input(firstNameInput, { target: { value: "Nic" } });
+  await screen.findByText("firstName: Nic (no error)");
+  fireEvent.input(firstNameInput, { target: { value: "Nicolas" } });
+  await screen.findByText("firstName: Nicolas (no error)");
+
+  fireEvent.input(lastNameInput, { target: { value: "Saison" } });
+  await screen.findByText("lastName: Saison");
+  await screen.findByText("can undo, cannot redo");
+
+  fireEvent.click(undoButton);
+  await screen.findByText("lastName:");
+  await screen.findByText("can undo, can redo");
+  expect(document.activeElement).toBe(lastNameInput);
+
+  fireEvent.click(undoButton);
+  await screen.findByText("firstName: (Required)");
+  await screen.findByText("cannot undo, can redo");
+  expect(document.activeElement).toBe(firstNameInput);
+
+  fireEvent.click(redoButton);
+  await screen.findByText("firstName: Nicolas (no error)");
+  await screen.findByText("lastName:");
+
+  fireEvent.click(await screen.findByText("Clear"));
+  await screen.findByText("cannot undo, cannot redo");
+});
+
+test("field array items changes are undone in place", async () => {
+  const Test = () => {
+    const { ArrayField, redo, undo } = useForm(
+      { list: { initialValue: ["a", "b"], item: {} } },
+      { history: {} },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <ArrayField name="list">
+          {({ items, remove }) => (
+            <>
+              <div>keys: {items.map(({ key }) => key).join(",")}</div>
+
+              {items.map(({ key, index, Field }) => (
+                <Field key={key}>
+                  {({ onChange, ref, value }) => (
+                    <>
+                      <label htmlFor={key}>Item {index}</label>
+
+                      <input
+                        ref={ref}
+                        type="text"
+                        id={key}
+                        value={value}
+                        onChange={(e) => {
+                          e.preventDefault();
+                          onChange(e.target.value);
+                        }}
+                      />
+
+                      <div>
+                        item {index}: {value}
+                      </div>
+                    </>
+                  )}
+                </Field>
+              ))}
+
+              <button onClick={() => remove(0)}>Remove first</button>
+            </>
+          )}
+        </ArrayField>
+
+        <button onClick={() => undo()}>Undo</button>
+        <button onClick={() => redo()}>Redo</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const keys = (await screen.findByText(/^keys:/)).textContent;
+  const secondInput = await screen.findByLabelText("Item 1");
+
+  fireEvent.input(secondInput, { target: { value: "bc" } });
+  await screen.findByText("item 1: bc");
+
+  fireEvent.click(await screen.findByText("Undo"));
+  await screen.findByText("item 1: b");
+
+  // Items keep their keys, the edited one is focused
+  expect((await screen.findByText(/^keys:/)).textContent).toBe(keys);
+  expect(document.activeElement).toBe(secondInput);
+
+  fireEvent.click(await screen.findByText("Redo"));
+  await screen.findByText("item 1: bc");
+
+  fireEvent.click(await screen.findByText("Remove first"));
+  await screen.findByText("item 0: bc");
+
+  fireEvent.click(await screen.findByText("Undo"));
+  await screen.findByText("item 0: a");
+  await screen.findByText("item 1: bc");
+  expect((await screen.findByText(/^keys:/)).textContent).toBe(keys);
+});
+
+test("rolled back batches are not recorded", async () => {
+  const Test = () => {
+    const { Field, batch, canUndo, setFieldValue } = useForm(
+      { firstName: { initialValue: "" } },
+      { history: {} },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">{({ value }) => <div>firstName: {value}</div>}</Field>
+        <div>{canUndo ? "can undo" : "cannot undo"}</div>
+
+        <button
+          onClick={() => {
+            try {
+              batch(
+                () => {
+                  setFieldValue("firstName", "Nicolas");
+                  throw new Error("Failed");
+                },
+                { rollback: true },
+              );
+            } catch {
+              // Rolled back
+            }
+          }}
+        >
+          Update
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Update"));
+  await screen.findByText("firstName:");
+  await screen.findByText("cannot undo");
+});
@@ -0,0 +1,150 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { test } from "vitest";
+import { useForm } from "../src";
+
+test("initial values can be updated after the first render", async () => {
+  const Test = () => {
+    const { Field, isDirty, resetForm, setInitialValues } = useForm({
+      firstName: { initialValue: "" },
+      lastName: { initialValue: "" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ dirty, onChange, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>
+                firstName: {value} ({dirty ? "dirty" : "pristine"})
+              </div>
+            </>
+          )}
+        </Field>
+
+        <Field name="lastName">{({ value }) => <div>lastName: {value}</div>}</Field>
+
+        <div>form {isDirty ? "dirty" : "pristine"}</div>
+
+        <button
+          onClick={() =>
+            setInitialValues({ firstName: "Nicolas", lastName: "Saison" }, { keepDirty: true })
+          }
+        >
+          Load
+        </button>
+
+        <button onClick={() => resetForm()}>Reset</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("First name");
+
+  fireEvent.input(input, { target: { value: "Mathieu" } });
+  await screen.findByText("firstName: Mathieu (dirty)");
+
+  fireEvent.click(await screen.findByText("Load"));
+
+  await screen.findByText("firstName: Mathieu (dirty)");
+  await screen.findByText("lastName: Saison");
+
+  fireEvent.click(await screen.findByText("Reset"));
+
+  await screen.findByText("firstName: Nicolas (pristine)");
+  await screen.findByText("form pristine");
+});
+
+test("reinitialize mode follows initialValue changes", async () => {
+  const Test = ({ firstName }: { firstName: string }) => {
+    const { Field } = useForm({ firstName: { initialValue: firstName } }, { reinitialize: true });
+
+    return (
+      <Field name="firstName">
+        {({ dirty, value }) => (
+          <div>
+            firstName: {value} ({dirty ? "dirty" : "pristine"})
+          </div>
+        )}
+      </Field>
+    );
+  };
+
+  const { rerender } = render(<Test firstName="" />);
+
+  await screen.findByText("firstName: (pristine)");
+
+  rerender(<Test firstName="Nicolas" />);
+  await screen.findByText("firstName: Nicolas (pristine)");
+});
+
+test("resetForm uses the current initialValue", async () => {
+  const Test = ({ firstName }: { firstName: string }) => {
+    const { Field, resetForm } = useForm({ firstName: { initialValue: firstName } });
+
+    return (
+      <>
+        <Field name="firstName">{({ value }) => <div>firstName: {value}</div>}</Field>
+        <button onClick={() => resetForm()}>Reset</button>
+      </>
+    );
+  };
+
+  const { rerender } = render(<Test firstName="one" />);
+
+  await screen.findByText("firstName: one");
+  rerender(<Test firstName="two" />);
+
+  fireEvent.click(await screen.findByText("Reset"));
+  await screen.findByText("firstName: two");
+});
+
+test("reinitialize mode compares initialValue deeply", async () => {
+  const Test = () => {
+    const { Field } = useForm(
+      { address: { initialValue: { city: "Paris" } } },
+      { reinitialize: true },
+    );
+
+    return (
+      <Field name="address">
+        {({ onChange, value }) => (
+          <>
+            <label htmlFor="city">City</label>
+
+            <input
+              type="text"
+              id="city"
+              value={value.city}
+              onChange={(e) => {
+                e.preventDefault();
+                onChange({ city: e.target.value });
+              }}
+            />
+
+            <div>city: {value.city}</div>
+          </>
+        )}
+      </Field>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("City"), { target: { value: "Lyon" } });
+  await screen.findByText("city: Lyon");
+});
@@ -0,0 +1,63 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { test } from "vitest";
+import { useForm } from "../src";
+
+test("visited and touched flags follow user interactions", async () => {
+  const Test = () => {
+    const { Field, resetForm, touchedFields } = useForm({
+      firstName: { strategy: "onSubmit", initialValue: "" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ onBlur, onChange, onFocus, touched, value, visited }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onBlur={onBlur}
+                onFocus={onFocus}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {!visited && <div>not visited</div>}
+              {visited && !touched && <div>visited</div>}
+              {touched && <div>touched</div>}
+            </>
+          )}
+        </Field>
+
+        <div>touchedFields: {touchedFields.join(", ")}</div>
+
+        <button onClick={() => resetForm()}>Reset</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("First name");
+  const resetButton = await screen.findByText("Reset");
+
+  await screen.findByText("not visited");
+  await screen.findByText("touchedFields:");
+
+  fireEvent.focus(input);
+  await screen.findByText("visited");
+
+  fireEvent.blur(input);
+  await screen.findByText("touched");
+  await screen.findByText("touchedFields: firstName");
+
+  fireEvent.click(resetButton);
+  await screen.findByText("not visited");
+  await screen.findByText("touchedFields:");
+});
@@ -0,0 +1,166 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { Form, FormConfig, useForm } from "../src";
+
+test("dot-path field names are submitted as a nested object", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, submitForm } = useForm({
+      firstName: { initialValue: "Nicolas" },
+      "address.street": { initialValue: "" },
+      "address.zip": { initialValue: "75001" },
+      "owner.birthDate.year": { initialValue: 1990 },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">{() => null}</Field>
+        <Field name="address.zip">{() => null}</Field>
+        <Field name="owner.birthDate.year">{() => null}</Field>
+
+        <Field name="address.street">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="street">Street</label>
+
+              <input
+                type="text"
+                id="street"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+            </>
+          )}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("Street");
+  const submitButton = await screen.findByText("Submit");
+
+  fireEvent.input(input, { target: { value: "Rue de Rivoli" } });
+  fireEvent.click(submitButton);
+
+  expect(submittedValues).toEqual({
+    firstName: "Nicolas",
+    address: { street: "Rue de Rivoli", zip: "75001" },
+    owner: { birthDate: { year: 1990 } },
+  });
+});
+
+type Values = {
+  firstName: string;
+  address: { zip: string; street: string };
+};
+
+test("dot-path field names are typed from nested values", async () => {
+  const zips: string[] = [];
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, listenFields, setFieldValue, submitForm } = useForm<Values>({
+      firstName: { initialValue: "Nicolas" },
+      "address.zip": { initialValue: "" },
+      "address.street": { initialValue: "Rue de Rivoli" },
+    });
+
+    React.useEffect(
+      () =>
+        listenFields(["address.zip"], (states) => {
+          zips.push(states["address.zip"].value);
+        }),
+      [listenFields],
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">{() => null}</Field>
+        <Field name="address.street">{() => null}</Field>
+
+        <Field name="address.zip">
+          {({ value }) => {
+            const zip: string = value;
+            return <div>zip: {zip}</div>;
+          }}
+        </Field>
+
+        <button onClick={() => setFieldValue("address.zip", "75001")}>Update</button>
+
+        <button
+          onClick={() =>
+            submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Update"));
+  await screen.findByText("zip: 75001");
+  expect(zips).toEqual(["75001"]);
+
+  fireEvent.click(await screen.findByText("Submit"));
+
+  expect(submittedValues).toEqual({
+    firstName: "Nicolas",
+    address: { zip: "75001", street: "Rue de Rivoli" },
+  });
+});
+
+test("dot-path field names values are type-checked", () => {
+  const config: FormConfig<Values> = {
+    firstName: { initialValue: "" },
+    address: { initialValue: { zip: "", street: "" } },
+  };
+
+  // @ts-expect-error firstName is not a nested object: it must be configured
+  const invalidConfig: FormConfig<Values> = {
+    "address.zip": { initialValue: "" },
+  };
+
+  const invalidConfigValue: FormConfig<Values> = {
+    firstName: { initialValue: "" },
+    // @ts-expect-error zip is a string
+    "address.zip": { initialValue: 75001 },
+  };
+
+  // Type-level checks only
+  const update = (form: Form<Values>) => {
+    const zip: string = form.getFieldState("address.zip").value;
+    form.setFieldValue("address.street", zip);
+
+    // @ts-expect-error zip is a string
+    form.setFieldValue("address.zip", 75001);
+    // @ts-expect-error address has no city
+    form.getFieldState("address.city");
+  };
+
+  expect(config.address?.initialValue).toEqual({ zip: "", street: "" });
+  expect(invalidConfig).toBeDefined();
+  expect(invalidConfigValue).toBeDefined();
+  expect(update).toBeInstanceOf(Function);
+});
@@ -0,0 +1,142 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { DraftStorage, PersistOptions, createMemoryStorage, useForm } from "../src";
+import { resolveAfter } from "./utils/promises";
+
+type Values = { firstName: string; password: string };
+
+const createTest =
+  (persist: PersistOptions<Values>, resetOnSuccess = false) =>
+  () => {
+    const { Field, resetForm, submitForm } = useForm<Values>(
+      {
+        firstName: { initialValue: "" },
+        password: { initialValue: "", sensitive: true },
+      },
+      { persist },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>firstName: {value}</div>
+            </>
+          )}
+        </Field>
+
+        <Field name="password">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="password">Password</label>
+
+              <input
+                type="password"
+                id="password"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              <div>password: {value}</div>
+            </>
+          )}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm(() => {
+              if (resetOnSuccess) {
+                resetForm();
+              }
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+test("drafts are persisted, restored and cleared on submission", async () => {
+  const storage = createMemoryStorage();
+  const Test = createTest({ key: "signup", storage });
+
+  const { unmount } = render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("First name"), { target: { value: "Nicolas" } });
+  fireEvent.input(await screen.findByLabelText("Password"), { target: { value: "secret" } });
+
+  await resolveAfter(0);
+  unmount();
+
+  expect(JSON.parse(storage.getItem("signup") as string)).toEqual({
+    version: 0,
+    values: { firstName: "Nicolas" },
+  });
+
+  render(<Test />);
+
+  await screen.findByText("firstName: Nicolas");
+  await screen.findByText("password:");
+
+  fireEvent.click(await screen.findByText("Submit"));
+  expect(storage.getItem("signup")).toBe(null);
+});
+
+test("drafts are not saved back when the form is reset on submission", async () => {
+  const storage = createMemoryStorage();
+  const Test = createTest({ key: "signup", storage }, true);
+
+  render(<Test />);
+
+  fireEvent.input(await screen.findByLabelText("First name"), { target: { value: "Nicolas" } });
+  await resolveAfter(0);
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await screen.findByText("firstName:");
+  await resolveAfter(0);
+
+  expect(storage.getItem("signup")).toBe(null);
+});
+
+test("drafts are restored from async storages and migrated", async () => {
+  const memoryStorage = createMemoryStorage();
+
+  const storage: DraftStorage = {
+    getItem: (key) => resolveAfter(50).then(() => memoryStorage.getItem(key)),
+    setItem: (key, value) => resolveAfter(50).then(() => memoryStorage.setItem(key, value)),
+    removeItem: (key) => resolveAfter(50).then(() => memoryStorage.removeItem(key)),
+  };
+
+  memoryStorage.setItem("signup", JSON.stringify({ version: 1, values: { name: "Nicolas" } }));
+
+  const Test = createTest({
+    key: "signup",
+    storage,
+    version: 2,
+    migrate: (values, version) =>
+      version === 1 ? { firstName: values.name as string } : undefined,
+  });
+
+  render(<Test />);
+
+  await screen.findByText("firstName:");
+  await screen.findByText("firstName: Nicolas");
+});
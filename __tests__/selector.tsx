@@ -0,0 +1,171 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { Form, useForm } from "../src";
+
+test("FieldsListener only rerenders when the selected result changes", async () => {
+  const renders: number[] = [];
+
+  const Test = () => {
+    const { Field, FieldsListener, setValues } = useForm({
+      quantity: { initialValue: 1 },
+      price: { initialValue: 10 },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="quantity">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="quantity">Quantity</label>
+
+              <input
+                type="number"
+                id="quantity"
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+              />
+            </>
+          )}
+        </Field>
+
+        <Field name="price">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="price">Price</label>
+
+              <input
+                type="number"
+                id="price"
+                value={value}
+                onChange={(e) => onChange(Number(e.target.value))}
+              />
+            </>
+          )}
+        </Field>
+
+        <FieldsListener
+          names={["quantity", "price"]}
+          selector={({ quantity, price }) => quantity.value * price.value}
+        >
+          {(total) => {
+            renders.push(total);
+            return <div>total: {total}</div>;
+          }}
+        </FieldsListener>
+
+        <button onClick={() => setValues({ quantity: 4, price: 5 })}>Update</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  await screen.findByText("total: 10");
+
+  fireEvent.input(await screen.findByLabelText("Quantity"), { target: { value: "2" } });
+  await screen.findByText("total: 20");
+
+  // Same total, different values
+  renders.length = 0;
+  fireEvent.click(await screen.findByText("Update"));
+
+  expect(await screen.findByLabelText("Quantity")).toHaveProperty("value", "4");
+  expect(renders).toEqual([]);
+
+  fireEvent.input(await screen.findByLabelText("Price"), { target: { value: "6" } });
+  await screen.findByText("total: 24");
+});
+
+test("FieldsListener supports non-serializable values", async () => {
+  const Test = () => {
+    const { FieldsListener, setFieldValue } = useForm({
+      date: { initialValue: new Date(2024, 0, 1) },
+    });
+
+    return (
+      <>
+        <FieldsListener names={["date"]}>
+          {({ date }) => <div>year: {date.value.getFullYear()}</div>}
+        </FieldsListener>
+
+        <button onClick={() => setFieldValue("date", new Date(2025, 0, 1))}>Update</button>
+      </>
+    );
+  };
+
+  render(<Test />);
+
+  await screen.findByText("year: 2024");
+  fireEvent.click(await screen.findByText("Update"));
+  await screen.findByText("year: 2025");
+});
+
+test("useFormSelector derives a value from field states", async () => {
+  const renders: boolean[] = [];
+
+  const Test = () => {
+    const form = useForm({
+      firstName: {
+        strategy: "onChange",
+        initialValue: "",
+        validate: (value) => {
+          if (value === "") {
+            return "Required";
+          }
+        },
+      },
+      lastName: { initialValue: "" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <form.Field name="firstName">
+          {({ onChange, value }) => (
+            <>
+              <label htmlFor="firstName">First name</label>
+
+              <input
+                type="text"
+                id="firstName"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+              />
+            </>
+          )}
+        </form.Field>
+
+        <SubmitButton form={form} renders={renders} />
+      </form>
+    );
+  };
+
+  const SubmitButton = ({
+    form,
+    renders,
+  }: {
+    form: Form<{ firstName: string; lastName: string }>;
+    renders: boolean[];
+  }) => {
+    const canSubmit = form.useFormSelector(
+      ({ getFieldState }) => getFieldState("firstName").value !== "",
+    );
+
+    renders.push(canSubmit);
+    return <button disabled={!canSubmit}>Submit</button>;
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("First name");
+  expect(await screen.findByText("Submit")).toHaveProperty("disabled", true);
+
+  fireEvent.input(input, { target: { value: "N" } });
+  expect(await screen.findByText("Submit")).toHaveProperty("disabled", false);
+
+  renders.length = 0;
+  fireEvent.input(input, { target: { value: "Nicolas" } });
+
+  // The selected result did not change
+  expect(renders).toEqual([]);
+});
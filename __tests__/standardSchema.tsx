@@ -0,0 +1,245 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import {
+  StandardSchemaV1,
+  fromStandardSchema,
+  useForm,
+  validateFormWithStandardSchema,
+  warn,
+  withStandardSchema,
+} from "../src";
+import { resolveAfter } from "./utils/promises";
+
+const minLengthSchema = (minLength: number): StandardSchemaV1<string> => ({
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      typeof value === "string" && value.length >= minLength
+        ? { value }
+        : { issues: [{ message: `Must be at least ${minLength} characters` }] },
+  },
+});
+
+const asyncEmailSchema: StandardSchemaV1<string> = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) =>
+      resolveAfter(100).then(() =>
+        typeof value === "string" && /.+@.+\..{2,}/.test(value)
+          ? { value }
+          : { issues: [{ message: "invalid email" }] },
+      ),
+  },
+};
+
+const addressSchema: StandardSchemaV1 = {
+  "~standard": {
+    version: 1,
+    vendor: "test",
+    validate: (value) => {
+      const { address } = value as { address: { street: string; zip: string } };
+      const issues: StandardSchemaV1.Issue[] = [];
+
+      if (address.street === "") {
+        issues.push({ message: "Street is required", path: ["address", { key: "street" }] });
+      }
+      if (!/^\d{5}$/.test(address.zip)) {
+        issues.push({ message: "Invalid zip code", path: ["address", "zip"] });
+      }
+
+      return issues.length > 0 ? { issues } : { value };
+    },
+  },
+};
+
+test("create field validators from standard schemas", async () => {
+  const validateMinLength = fromStandardSchema(minLengthSchema(3));
+  const validateEmail = fromStandardSchema(asyncEmailSchema);
+
+  expect(validateMinLength("Ni")).toBe("Must be at least 3 characters");
+  expect(validateMinLength("Nicolas")).toBe(undefined);
+
+  expect(await validateEmail("hello@swan")).toBe("invalid email");
+  expect(await validateEmail("hello@swan.io")).toBe(undefined);
+});
+
+test("dispatch whole values schema issues to fields", async () => {
+  let submittedErrors: unknown;
+
+  const Test = () => {
+    const { Field, submitForm } = useForm(
+      withStandardSchema(addressSchema, {
+        "address.street": { initialValue: "" },
+        "address.zip": { initialValue: "" },
+      }),
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="address.street">
+          {({ error }) => (error ? <div>street error: {error}</div> : null)}
+        </Field>
+
+        <Field name="address.zip">
+          {({ error }) => (error ? <div>zip error: {error}</div> : null)}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm(
+              () => {},
+              (errors) => {
+                submittedErrors = errors;
+              },
+            )
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Submit"));
+
+  await screen.findByText("street error: Street is required");
+  await screen.findByText("zip error: Invalid zip code");
+
+  expect(submittedErrors).toEqual({
+    "address.street": "Street is required",
+    "address.zip": "Invalid zip code",
+  });
+});
+
+test("fields own warnings don't skip the schema check", async () => {
+  let submittedWarnings: unknown;
+  let submittedErrors: unknown;
+
+  const Test = () => {
+    const { Field, setValues, submitForm } = useForm(
+      withStandardSchema(addressSchema, {
+        "address.street": { initialValue: "" },
+        "address.zip": { initialValue: "", validate: () => warn("Unusual zip code") },
+      }),
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="address.street">{() => null}</Field>
+        <Field name="address.zip">{() => null}</Field>
+
+        <button onClick={() => setValues({ "address.street": "Rue", "address.zip": "75001" })}>
+          Fill
+        </button>
+
+        <button
+          onClick={() =>
+            submitForm(
+              (_values, { warnings }) => {
+                submittedWarnings = warnings;
+              },
+              (errors) => {
+                submittedErrors = errors;
+              },
+            )
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await resolveAfter(0);
+
+  expect(submittedWarnings).toBe(undefined);
+  expect(submittedErrors).toEqual({
+    "address.street": "Street is required",
+    "address.zip": "Invalid zip code",
+  });
+
+  fireEvent.click(await screen.findByText("Fill"));
+  fireEvent.click(await screen.findByText("Submit"));
+  await resolveAfter(0);
+
+  expect(submittedWarnings).toEqual({ "address.zip": "Unusual zip code" });
+});
+
+test("report schema issues matching no field as form error", async () => {
+  let schemaRuns = 0;
+  let submitted = false;
+  let submittedFormError: unknown;
+
+  const passwordSchema: StandardSchemaV1 = {
+    "~standard": {
+      version: 1,
+      vendor: "test",
+      validate: (value) => {
+        schemaRuns++;
+        const { password, confirm } = value as { password: string; confirm: string };
+
+        return password === confirm
+          ? { value }
+          : { issues: [{ message: "Passwords don't match" }] };
+      },
+    },
+  };
+
+  const Test = () => {
+    const { Field, setFieldValue, submitForm } = useForm(
+      withStandardSchema(passwordSchema, {
+        password: { initialValue: "" },
+        confirm: { initialValue: "" },
+      }),
+      {
+        validateForm: validateFormWithStandardSchema(passwordSchema),
+      },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="password">{() => null}</Field>
+        <Field name="confirm">{() => null}</Field>
+
+        <button onClick={() => setFieldValue("password", "secret")}>Fill</button>
+
+        <button
+          onClick={() =>
+            submitForm(
+              () => {
+                submitted = true;
+              },
+              (_errors, { formError }) => {
+                submittedFormError = formError;
+              },
+            )
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Fill"));
+  schemaRuns = 0;
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await resolveAfter(0);
+
+  expect(submitted).toBe(false);
+  expect(submittedFormError).toBe("Passwords don't match");
+
+  // Once for the fields, once for validateForm
+  expect(schemaRuns).toBe(2);
+});
@@ -0,0 +1,155 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+
+const validateRequired = (value: string) => {
+  if (value === "") {
+    return "Required";
+  }
+};
+
+test("wizard steps are validated one by one and submitted together", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const { Field, currentStep, nextStep, previousStep, stepStatuses, submitForm } = useForm(
+      {
+        firstName: { initialValue: "", validate: validateRequired },
+        lastName: { initialValue: "", validate: validateRequired },
+        company: { initialValue: "", validate: validateRequired },
+      },
+      {
+        steps: [["firstName", "lastName"], ["company"]],
+      },
+    );
+
+    const renderInput = (name: "firstName" | "lastName" | "company", label: string) => (
+      <Field name={name}>
+        {({ error, onChange, ref, value }) => (
+          <>
+            <label htmlFor={name}>{label}</label>
+
+            <input
+              ref={ref}
+              type="text"
+              id={name}
+              value={value}
+              onChange={(e) => {
+                e.preventDefault();
+                onChange(e.target.value);
+              }}
+            />
+
+            {error && (
+              <div>
+                {label} error: {error}
+              </div>
+            )}
+          </>
+        )}
+      </Field>
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <div>step: {currentStep}</div>
+        <div>statuses: {stepStatuses.join(", ")}</div>
+
+        {currentStep === 0 && (
+          <>
+            {renderInput("firstName", "First name")}
+            {renderInput("lastName", "Last name")}
+          </>
+        )}
+
+        {currentStep === 1 && renderInput("company", "Company")}
+
+        <button onClick={() => previousStep()}>Previous</button>
+        <button onClick={() => void nextStep()}>Next</button>
+
+        <button
+          onClick={() =>
+            submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const nextButton = await screen.findByText("Next");
+
+  await screen.findByText("statuses: untouched, untouched");
+  fireEvent.input(await screen.findByLabelText("First name"), { target: { value: "Nicolas" } });
+
+  fireEvent.click(nextButton);
+
+  await screen.findByText("Last name error: Required");
+  await screen.findByText("statuses: invalid, untouched");
+  expect(document.activeElement).toBe(await screen.findByLabelText("Last name"));
+
+  fireEvent.input(await screen.findByLabelText("Last name"), { target: { value: "Saison" } });
+  fireEvent.click(nextButton);
+
+  await screen.findByText("step: 1");
+  await screen.findByText("statuses: valid, untouched");
+
+  fireEvent.input(await screen.findByLabelText("Company"), { target: { value: "Swan" } });
+  fireEvent.click(await screen.findByText("Submit"));
+
+  expect(submittedValues).toEqual({ firstName: "Nicolas", lastName: "Saison", company: "Swan" });
+
+  fireEvent.click(await screen.findByText("Previous"));
+  await screen.findByText("step: 0");
+
+  fireEvent.input(await screen.findByLabelText("First name"), { target: { value: "" } });
+  fireEvent.click(await screen.findByText("Next"));
+  await screen.findByText("First name error: Required");
+});
+
+test("submitting goes back to the step of the first error", async () => {
+  const Test = () => {
+    const { Field, currentStep, goToStep, submitForm } = useForm(
+      {
+        firstName: { initialValue: "", validate: validateRequired },
+        company: { initialValue: "" },
+      },
+      {
+        steps: [["firstName"], ["company"]],
+      },
+    );
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <div>step: {currentStep}</div>
+
+        {currentStep === 0 && (
+          <Field name="firstName">
+            {({ ref }) => <input ref={ref} type="text" aria-label="First name" />}
+          </Field>
+        )}
+
+        {currentStep === 1 && <Field name="company">{() => null}</Field>}
+
+        <button onClick={() => goToStep(1)}>Skip</button>
+        <button onClick={() => submitForm(() => {})}>Submit</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Skip"));
+  await screen.findByText("step: 1");
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await screen.findByText("step: 0");
+
+  expect(document.activeElement).toBe(await screen.findByLabelText("First name"));
+});
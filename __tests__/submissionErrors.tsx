@@ -0,0 +1,129 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { useForm } from "../src";
+import { resolveAfter } from "./utils/promises";
+
+test("server errors returned or thrown by onSuccess are applied to fields", async () => {
+  const Test = () => {
+    const { Field, formError, formStatus, submitForm } = useForm({
+      firstName: { strategy: "onSubmit", initialValue: "Nicolas" },
+      email: { strategy: "onSubmit", initialValue: "nicolas@swan.io" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">
+          {({ error, ref }) => (
+            <>
+              <input ref={ref} type="text" aria-label="First name" />
+              {error && <div>firstName error: {error}</div>}
+            </>
+          )}
+        </Field>
+
+        <Field name="email">
+          {({ error, onChange, ref, value }) => (
+            <>
+              <label htmlFor="email">Email</label>
+
+              <input
+                ref={ref}
+                type="text"
+                id="email"
+                value={value}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {error && <div>email error: {error}</div>}
+            </>
+          )}
+        </Field>
+
+        <div>formStatus: {formStatus}</div>
+        {formError && <div>formError: {formError}</div>}
+
+        <button
+          onClick={() =>
+            submitForm((values, { fail }) =>
+              resolveAfter(100).then(() => fail({ email: "Already taken" }, "Server error")),
+            )
+          }
+        >
+          Submit
+        </button>
+
+        <button
+          onClick={() =>
+            submitForm((values, { fail }) => {
+              throw fail({ firstName: "Invalid name" });
+            })
+          }
+        >
+          Submit sync
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("Email");
+
+  fireEvent.click(await screen.findByText("Submit"));
+  await screen.findByText("formStatus: submitting");
+
+  await screen.findByText("email error: Already taken");
+  await screen.findByText("formError: Server error");
+  await screen.findByText("formStatus: failed");
+  expect(document.activeElement).toBe(input);
+
+  fireEvent.input(input, { target: { value: "hello@swan.io" } });
+  await screen.findByText("formStatus: editing");
+
+  fireEvent.click(await screen.findByText("Submit sync"));
+
+  await screen.findByText("firstName error: Invalid name");
+  await screen.findByText("formStatus: failed");
+  expect(document.activeElement).toBe(await screen.findByLabelText("First name"));
+});
+
+test("errors can be set and cleared in bulk", async () => {
+  const Test = () => {
+    const { Field, clearErrors, setFieldErrors } = useForm({
+      firstName: { initialValue: "" },
+      lastName: { initialValue: "" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="firstName">{({ error }) => <div>firstName: {error ?? "no error"}</div>}</Field>
+
+        <Field name="lastName">{({ error }) => <div>lastName: {error ?? "no error"}</div>}</Field>
+
+        <button onClick={() => setFieldErrors({ firstName: "Required", lastName: "Required" })}>
+          Set errors
+        </button>
+
+        <button onClick={() => clearErrors(["lastName"])}>Clear lastName</button>
+        <button onClick={() => clearErrors()}>Clear all</button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  fireEvent.click(await screen.findByText("Set errors"));
+  await screen.findByText("firstName: Required");
+  await screen.findByText("lastName: Required");
+
+  fireEvent.click(await screen.findByText("Clear lastName"));
+  await screen.findByText("firstName: Required");
+  await screen.findByText("lastName: no error");
+
+  fireEvent.click(await screen.findByText("Clear all"));
+  await screen.findByText("firstName: no error");
+});
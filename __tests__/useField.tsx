@@ -0,0 +1,100 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { Form, useForm } from "../src";
+
+type Values = { firstName: string; lastName: string };
+
+const renders: string[] = [];
+
+const Input = ({
+  form,
+  name,
+  label,
+}: {
+  form: Form<Values>;
+  name: keyof Values;
+  label: string;
+}) => {
+  const { error, onBlur, onChange, ref, value } = form.useField(name);
+  renders.push(name);
+
+  return (
+    <>
+      <label htmlFor={name}>{label}</label>
+
+      <input
+        ref={ref}
+        type="text"
+        id={name}
+        value={value}
+        onBlur={onBlur}
+        onChange={(e) => {
+          e.preventDefault();
+          onChange(e.target.value);
+        }}
+      />
+
+      {error && (
+        <div>
+          {label} error: {error}
+        </div>
+      )}
+    </>
+  );
+};
+
+test("useField subscribes to a single field state", async () => {
+  let submittedValues: unknown;
+
+  const Test = () => {
+    const form = useForm<Values>({
+      firstName: {
+        strategy: "onBlur",
+        initialValue: "",
+        validate: (value) => {
+          if (value.length < 3) {
+            return "Must be at least 3 characters";
+          }
+        },
+      },
+      lastName: { initialValue: "" },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Input form={form} name="firstName" label="First name" />
+        <Input form={form} name="lastName" label="Last name" />
+
+        <button
+          onClick={() =>
+            form.submitForm((values) => {
+              submittedValues = values;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("First name");
+
+  fireEvent.input(input, { target: { value: "Ni" } });
+  fireEvent.blur(input);
+  await screen.findByText("First name error: Must be at least 3 characters");
+
+  // Only the calling component rerenders on field state changes
+  renders.length = 0;
+  fireEvent.input(input, { target: { value: "Nicolas" } });
+
+  expect(screen.queryByText("First name error: Must be at least 3 characters")).toBe(null);
+  expect(renders).toEqual(["firstName"]);
+
+  fireEvent.click(await screen.findByText("Submit"));
+
+  expect(submittedValues).toEqual({ firstName: "Nicolas", lastName: "" });
+});
@@ -0,0 +1,74 @@
+import { expect, test } from "vitest";
+import {
+  FormConfig,
+  ValidationError,
+  combineValidators,
+  email,
+  max,
+  maxLength,
+  min,
+  minLength,
+  oneOf,
+  pattern,
+  required,
+} from "../src";
+
+test("validators return structured errors", () => {
+  expect(required("")).toEqual({ code: "required", params: {} });
+  expect(required([])).toEqual({ code: "required", params: {} });
+  expect(required(0)).toBe(undefined);
+
+  expect(minLength(3)("ab")).toEqual({ code: "minLength", params: { min: 3 } });
+  expect(minLength(3)("abc")).toBe(undefined);
+  expect(maxLength(1)(["a", "b"])).toEqual({ code: "maxLength", params: { max: 1 } });
+
+  expect(pattern(/^\d+$/)("12a")).toEqual({ code: "pattern", params: { pattern: /^\d+$/ } });
+  expect(pattern(/^\d+$/)("")).toBe(undefined);
+
+  const validateDigit = pattern(/\d/g);
+  expect([validateDigit("1"), validateDigit("1"), validateDigit("1")]).toEqual([
+    undefined,
+    undefined,
+    undefined,
+  ]);
+
+  expect(email("hello@swan")).toEqual({ code: "email", params: {} });
+  expect(email("not an email a@b.cc")).toEqual({ code: "email", params: {} });
+  expect(email("a@@b..cc")).toEqual({ code: "email", params: {} });
+  expect(email("hello @swan.io")).toEqual({ code: "email", params: {} });
+  expect(email("hello@swan.io")).toBe(undefined);
+
+  expect(min(1)(0)).toEqual({ code: "min", params: { min: 1 } });
+  expect(max(10)(11)).toEqual({ code: "max", params: { max: 10 } });
+  expect(max(10)(10)).toBe(undefined);
+
+  expect(oneOf(["EUR", "USD"])("GBP")).toEqual({
+    code: "oneOf",
+    params: { values: ["EUR", "USD"] },
+  });
+});
+
+test("validators compose and are typed against field values", () => {
+  const config: FormConfig<{ password: string; age: number }, ValidationError> = {
+    password: {
+      initialValue: "",
+      validate: combineValidators(required, minLength(8), pattern(/\d/)),
+    },
+    age: {
+      initialValue: 0,
+      validate: combineValidators(min(18), max(130)),
+    },
+  };
+
+  const invalidConfig: FormConfig<{ age: number }, ValidationError> = {
+    // @ts-expect-error a string validator cannot be attached to a number field
+    age: { initialValue: 0, validate: minLength(8) },
+  };
+
+  expect(config.password.validate?.("abc", {} as never)).toEqual({
+    code: "minLength",
+    params: { min: 8 },
+  });
+
+  expect(invalidConfig.age.initialValue).toBe(0);
+});
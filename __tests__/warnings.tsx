@@ -0,0 +1,121 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import * as React from "react";
+import { expect, test } from "vitest";
+import { FormConfig, combineValidators, useForm, warn } from "../src";
+
+const validateCountry = (value: string) => {
+  if (!value.startsWith("FR")) {
+    return warn("IBAN country differs from your address");
+  }
+};
+
+const validateRequired = (value: string) => {
+  if (value === "") {
+    return "Required";
+  }
+};
+
+test("warnings are displayed but never block submission", async () => {
+  let submittedValues: unknown;
+  let submittedWarnings: unknown;
+
+  const Test = () => {
+    const { Field, submitForm } = useForm({
+      iban: {
+        strategy: "onBlur",
+        initialValue: "",
+        validate: combineValidators(validateCountry, validateRequired),
+      },
+    });
+
+    return (
+      <form onSubmit={(e) => e.preventDefault()}>
+        <Field name="iban">
+          {({ error, onBlur, onChange, valid, value, warning }) => (
+            <>
+              <label htmlFor="iban">IBAN</label>
+
+              <input
+                type="text"
+                id="iban"
+                value={value}
+                onBlur={onBlur}
+                onChange={(e) => {
+                  e.preventDefault();
+                  onChange(e.target.value);
+                }}
+              />
+
+              {valid && <div>IBAN valid</div>}
+              {error && <div>IBAN error: {error}</div>}
+              {warning && <div>IBAN warning: {warning}</div>}
+            </>
+          )}
+        </Field>
+
+        <button
+          onClick={() =>
+            submitForm((values, { warnings }) => {
+              submittedValues = values;
+              submittedWarnings = warnings;
+            })
+          }
+        >
+          Submit
+        </button>
+      </form>
+    );
+  };
+
+  render(<Test />);
+
+  const input = await screen.findByLabelText("IBAN");
+
+  // Errors take precedence over warnings
+  fireEvent.click(await screen.findByText("Submit"));
+  await screen.findByText("IBAN error: Required");
+  expect(screen.queryByText(/IBAN warning/)).toBe(null);
+  expect(submittedValues).toBe(undefined);
+
+  fireEvent.input(input, { target: { value: "DE89370400440532013000" } });
+  fireEvent.blur(input);
+
+  await screen.findByText("IBAN valid");
+  await screen.findByText("IBAN warning: IBAN country differs from your address");
+
+  fireEvent.click(await screen.findByText("Submit"));
+
+  expect(submittedValues).toEqual({ iban: "DE89370400440532013000" });
+  expect(submittedWarnings).toEqual({ iban: "IBAN country differs from your address" });
+
+  fireEvent.input(input, { target: { value: "FR7630006000011234567890189" } });
+  fireEvent.blur(input);
+
+  await screen.findByText("IBAN valid");
+  expect(screen.queryByText(/IBAN warning/)).toBe(null);
+});
+
+test("combineValidators keeps running validators after a warning", async () => {
+  const validate = combineValidators(
+    (value: string) => (value.length < 8 ? warn("Weak password") : undefined),
+    (value: string) => Promise.resolve(value === "" ? "Required" : undefined),
+  );
+
+  expect(await validate("")).toBe("Required");
+  expect(await validate("abc")).toEqual({ warning: "Weak password" });
+  expect(await validate("abcdefghij")).toBe(undefined);
+});
+
+test("warnings can only be created using warn", () => {
+  const config: FormConfig<{ password: string }> = {
+    password: { initialValue: "", validate: () => warn("Weak password") },
+  };
+
+  const invalidConfig: FormConfig<{ password: string }> = {
+    // @ts-expect-error a plain object is not a warning
+    password: { initialValue: "", validate: () => ({ warning: "Weak password" }) },
+  };
+
+  expect(config.password.validate?.("", {} as never)).toEqual({ warning: "Weak password" });
+  expect(invalidConfig.password.initialValue).toBe("");
+});
@@ -0,0 +1,74 @@
+import { ReactElement, ReactNode, createContext, createElement, useContext } from "react";
+import type { FieldChildren, FieldState, Form, Path, PathValue } from "./index";
+import { AnyRecord } from "./utils";
+
+type FieldProps<Values extends AnyRecord, N extends Path<Values>, ErrorMessage> = {
+  name: N;
+  children: FieldChildren<PathValue<Values, N>, ErrorMessage>;
+};
+
+type FieldsListenerProps<
+  Values extends AnyRecord,
+  N extends Path<Values>,
+  ErrorMessage,
+  Selection = { [N1 in N]: FieldState<PathValue<Values, N1>, ErrorMessage> },
+> = {
+  names: N[];
+  selector?: (states: { [N1 in N]: FieldState<PathValue<Values, N1>, ErrorMessage> }) => Selection;
+  equalityFn?: (a: Selection, b: Selection) => boolean;
+  children: (selection: Selection) => ReactElement | null;
+};
+
+const FormContext = createContext<unknown>(undefined);
+
+export const FormProvider = <Values extends AnyRecord, ErrorMessage = string>({
+  form,
+  children,
+}: {
+  form: Form<Values, ErrorMessage>;
+  children?: ReactNode;
+}): ReactElement => createElement(FormContext.Provider, { value: form }, children);
+
+// Values could be a subset of the provided form values (ex: a reusable address section)
+export const useFormContext = <Values extends AnyRecord, ErrorMessage = string>(): Form<
+  Values,
+  ErrorMessage
+> => {
+  const form = useContext(FormContext);
+
+  if (typeof form === "undefined") {
+    throw new Error("useFormContext must be used within a FormProvider");
+  }
+
+  return form as Form<Values, ErrorMessage>;
+};
+
+// Context-aware versions of the Form components
+export const Field = <Values extends AnyRecord, N extends Path<Values>, ErrorMessage = string>(
+  props: FieldProps<Values, N, ErrorMessage>,
+): ReactElement => {
+  const { Field } = useFormContext<Values, ErrorMessage>();
+
+  return createElement(
+    Field as (props: FieldProps<Values, N, ErrorMessage>) => ReactElement | null,
+    props,
+  );
+};
+
+export const FieldsListener = <
+  Values extends AnyRecord,
+  N extends Path<Values>,
+  ErrorMessage = string,
+  Selection = { [N1 in N]: FieldState<PathValue<Values, N1>, ErrorMessage> },
+>(
+  props: FieldsListenerProps<Values, N, ErrorMessage, Selection>,
+): ReactElement => {
+  const { FieldsListener } = useFormContext<Values, ErrorMessage>();
+
+  return createElement(
+    FieldsListener as (
+      props: FieldsListenerProps<Values, N, ErrorMessage, Selection>,
+    ) => ReactElement | null,
+    props,
+  );
+};
@@ -9,22 +9,65 @@ import {
   useRef,
 } from "react";
 import { useSyncExternalStore } from "use-sync-external-store/shim";
+import { useSyncExternalStoreWithSelector } from "use-sync-external-store/shim/with-selector";
+import { PersistOptions, readDraft, removeDraft, writeDraft } from "./persist";
+import {
+  AnyRecord,
+  countSignificantChars,
+  getCaretPosition,
+  isDeepEqual,
+  isPromise,
+  setPathValue,
+} from "./utils";
+import {
+  ValidatorErrors,
+  ValidatorWarning,
+  createValidatorErrors,
+  isValidatorErrors,
+  isValidatorWarning,
+} from "./validatorResults";
+
+export { Field, FieldsListener, FormProvider, useFormContext } from "./context";
+export { createMemoryStorage } from "./persist";
+export type { DraftStorage, PersistOptions } from "./persist";
+export {
+  fromStandardSchema,
+  validateFormWithStandardSchema,
+  withStandardSchema,
+} from "./standardSchema";
+export type { StandardSchemaOptions, StandardSchemaV1 } from "./standardSchema";
+export { warn } from "./validatorResults";
+export type { ValidatorErrors, ValidatorWarning } from "./validatorResults";
+export { email, max, maxLength, min, minLength, oneOf, pattern, required } from "./validators";
+export type { ValidationError } from "./validators";
 
 // For server-side rendering / react-native
 const useIsoLayoutEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
 
-type AnyRecord = Record<string, unknown>;
-
+// undefined is listed explicitly to avoid inferring it as part of ErrorMessage
 export type ValidatorResult<ErrorMessage = string> =
   | ErrorMessage
+  | ValidatorWarning<ErrorMessage>
+  | ValidatorErrors<ErrorMessage>
+  | undefined
   | void
-  | Promise<ErrorMessage | void>;
+  | Promise<
+      | ErrorMessage
+      | ValidatorWarning<ErrorMessage>
+      | ValidatorErrors<ErrorMessage>
+      | undefined
+      | void
+    >;
+
+// Validators results, once warnings have been extracted
+type ErrorResult<ErrorMessage> = ErrorMessage | void | Promise<ErrorMessage | void>;
 
 export type Validator<Value, ErrorMessage = string> = (
   value: Value,
 ) => ValidatorResult<ErrorMessage>;
 
-export type FormStatus = "untouched" | "editing" | "submitting" | "submitted";
+export type FormStatus = "untouched" | "editing" | "submitting" | "submitted" | "failed";
+export type StepStatus = "untouched" | "valid" | "invalid";
 
 // Kudos to https://github.com/MinimaHQ/re-formality/blob/master/docs/02-ValidationStrategies.md
 export type Strategy = "onChange" | "onSuccess" | "onBlur" | "onSuccessOrBlur" | "onSubmit";
@@ -34,80 +77,407 @@ export type FieldState<Value, ErrorMessage = string> = {
   validating: boolean;
   valid: boolean;
   error: ErrorMessage | undefined;
+  // All the field errors (when using combineValidatorsAll), error being the first one
+  errors: ErrorMessage[];
+  warning: ErrorMessage | undefined;
+  // error, errors and warning, mapped using the formatError form option (unset without it)
+  formattedError: string | undefined;
+  formattedErrors: string[];
+  formattedWarning: string | undefined;
+  dirty: boolean;
+  touched: boolean;
+  visited: boolean;
+  disabled: boolean;
 };
 
-export type FormConfig<Values extends AnyRecord, ErrorMessage = string> = {
-  [N in keyof Values]: {
-    initialValue: Values[N] | (() => Values[N]);
-    strategy?: Strategy;
-    debounceInterval?: number;
-    equalityFn?: (valueBeforeValidate: Values[N], valueAfterValidate: Values[N]) => boolean;
-    sanitize?: (value: Values[N]) => Values[N];
-    validate?: (
-      value: Values[N],
-      helpers: {
-        focusField: (name: keyof Values) => void;
-        getFieldState: <N extends keyof Values>(
-          name: N,
-          options?: { sanitize?: boolean },
-        ) => FieldState<Values[N], ErrorMessage>;
-      },
-    ) => ValidatorResult<ErrorMessage>;
+// Dot-paths to every value ("address" and "address.zip" for { address: { zip: string } })
+// Only plain objects types are nested: arrays, dates, interfaces… are not
+export type Path<Values> = {
+  [K in keyof Values & string]: Values[K] extends AnyRecord ? K | `${K}.${Path<Values[K]>}` : K;
+}[keyof Values & string];
+
+export type PathValue<Values, P> = P extends keyof Values
+  ? Values[P]
+  : P extends `${infer Head}.${infer Tail}`
+  ? Head extends keyof Values
+    ? PathValue<Values[Head], Tail>
+    : never
+  : never;
+
+// Values by field name ("address.zip")
+export type FlatValues<Values> = { [P in Path<Values>]: PathValue<Values, P> };
+
+// Paths that are not Values keys
+type NestedPath<Values> = Exclude<Path<Values>, keyof Values>;
+
+// Values keys that are not plain objects
+type LeafKey<Values> = {
+  [K in keyof Values]: Values[K] extends AnyRecord ? never : K;
+}[keyof Values];
+
+type PathHead<Path> = Path extends `${infer Head}.${string}` ? Head : Path;
+
+// Rebuilds the nested object described by dot-path field names ("address.street")
+// Nested values are partial, as disabled fields are not submitted
+export type SubmittedValues<Values extends AnyRecord> = {
+  [N in keyof Values as PathHead<N>]?: N extends `${infer Head}.${string}`
+    ? SubmittedValues<{
+        [P in keyof Values as P extends `${Head}.${infer Tail}` ? Tail : never]: Values[P];
+      }>
+    : Values[N] extends AnyRecord
+    ? SubmittedValues<Values[N]>
+    : Values[N];
+};
+
+type ArrayItem<Value> = Value extends readonly (infer Item)[] ? Item : never;
+
+type FieldArrayName<Fields extends AnyRecord> = {
+  [N in keyof Fields]: Fields[N] extends readonly unknown[] ? N : never;
+}[keyof Fields];
+
+export type FieldProps<Value, ErrorMessage = string> = FieldState<Value, ErrorMessage> & {
+  ref: MutableRefObject<any>;
+  // The value formatted for display (using the format field config)
+  displayValue: string;
+  onChange: (value: Value) => void;
+  // Parses the text (using the parse field config) before updating the value
+  onChangeText: (text: string) => void;
+  onFocus: () => void;
+  onBlur: () => void;
+  focusNextField: () => void;
+};
+
+export type FieldChildren<Value, ErrorMessage = string> = (
+  props: FieldProps<Value, ErrorMessage>,
+) => ReactElement | null;
+
+export type FieldArray<Value, ErrorMessage = string> = {
+  items: {
+    key: string;
+    index: number;
+    Field: ((props: { children: FieldChildren<Value, ErrorMessage> }) => ReactElement | null) & {
+      displayName?: string;
+    };
+  }[];
+  append: (value: Value) => void;
+  insert: (index: number, value: Value) => void;
+  remove: (index: number) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+};
+
+export type FieldArrayErrors<
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = Partial<{
+  [N in keyof Fields]: (ErrorMessage | undefined)[];
+}>;
+
+type ValidateHelpers<
+  Values extends AnyRecord,
+  ErrorMessage,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
+  // Aborted when the validation is outdated (a new one started, the field was reset or unmounted)
+  signal: AbortSignal;
+  focusField: (name: keyof Fields) => void;
+  getFieldState: <N extends keyof Fields>(
+    name: N,
+    options?: { sanitize?: boolean },
+  ) => FieldState<Fields[N], ErrorMessage>;
+};
+
+type FieldConfig<
+  Value,
+  Values extends AnyRecord,
+  ErrorMessage,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
+  strategy?: Strategy;
+  debounceInterval?: number;
+  equalityFn?: (valueBeforeValidate: Value, valueAfterValidate: Value) => boolean;
+  sanitize?: (value: Value) => Value;
+  // Converts between the stored value and the displayed text
+  format?: (value: Value) => string;
+  parse?: (text: string) => Value;
+  validate?: (
+    value: Value,
+    helpers: ValidateHelpers<Values, ErrorMessage, Fields>,
+  ) => ValidatorResult<ErrorMessage>;
+};
+
+type FormFieldConfig<
+  Value,
+  Values extends AnyRecord,
+  ErrorMessage,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = FieldConfig<Value, Values, ErrorMessage, Fields> & {
+  initialValue: Value | (() => Value);
+  // Fields whose value changes trigger this field re-validation
+  dependsOn?: (keyof Fields)[];
+  // Disabled fields are excluded from validation and submission
+  enabled?: (
+    helpers: Pick<ValidateHelpers<Values, ErrorMessage, Fields>, "getFieldState">,
+  ) => boolean;
+  // Turns the field into a field array: each item gets its own state
+  item?: FieldConfig<ArrayItem<Value>, Values, ErrorMessage, Fields>;
+  // Excludes the field value from persisted drafts
+  sensitive?: boolean;
+};
+
+// Nested values can be configured as a whole ("address") or path by path ("address.zip")
+export type FormConfig<Values extends AnyRecord, ErrorMessage = string> = [
+  NestedPath<Values>,
+] extends [never]
+  ? { [N in keyof Values]: FormFieldConfig<Values[N], Values, ErrorMessage> }
+  : {
+      [N in keyof Values]?: FormFieldConfig<Values[N], Values, ErrorMessage>;
+    } & {
+      [P in NestedPath<Values>]?: FormFieldConfig<PathValue<Values, P>, Values, ErrorMessage>;
+    } & {
+      // Values keys that are not plain objects must be configured
+      [N in LeafKey<Values>]: unknown;
+    };
+
+export type FormValidatorResult<
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
+  fieldErrors?: Partial<Record<keyof Fields, ErrorMessage>>;
+  formError?: ErrorMessage;
+} | void;
+
+// Field internal state, reported in events
+export type FieldEventState<Value, ErrorMessage = string> = {
+  value: Value;
+  talkative: boolean;
+  touched: boolean;
+  visited: boolean;
+  validity:
+    | { tag: "unknown" }
+    | { tag: "validating" }
+    | { tag: "valid"; warning?: ErrorMessage }
+    | { tag: "invalid"; error: ErrorMessage; errors?: ErrorMessage[] };
+};
+
+type FieldEvent<
+  Values extends AnyRecord,
+  ErrorMessage,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
+  [N in keyof Fields]: {
+    name: N;
+    timestamp: number;
+    prevState: FieldEventState<Fields[N], ErrorMessage>;
+    nextState: FieldEventState<Fields[N], ErrorMessage>;
   };
+}[keyof Fields];
+
+export type FormEvent<
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  Fields extends AnyRecord = FlatValues<Values>,
+> =
+  | (FieldEvent<Values, ErrorMessage, Fields> & {
+      type: "change" | "blur" | "talkative" | "reset" | "validateStart";
+    })
+  | (FieldEvent<Values, ErrorMessage, Fields> & { type: "validateEnd"; error: ErrorMessage | void })
+  | (FieldEvent<Values, ErrorMessage, Fields> & {
+      type: "validationDiscarded";
+      // aborted: a newer validation started, the field has been reset or unmounted
+      // outdated: the value changed during validation (according to equalityFn)
+      reason: "aborted" | "outdated";
+    })
+  | { type: "submitStart"; timestamp: number }
+  | { type: "submitEnd"; timestamp: number; formStatus: FormStatus };
+
+export type FormOptions<
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
+  validateForm?: (
+    values: Fields,
+    helpers: ValidateHelpers<Values, ErrorMessage, Fields>,
+  ) =>
+    | FormValidatorResult<Values, ErrorMessage, Fields>
+    | Promise<FormValidatorResult<Values, ErrorMessage, Fields>>;
+  validateFormOnChange?: boolean;
+  // Update the initial values when fields initialValue change
+  reinitialize?: boolean;
+  keepDirtyOnReinitialize?: boolean;
+  // Persist fields values as a draft, cleared on successful submission
+  persist?: PersistOptions<Fields>;
+  // Record fields values changes, to undo / redo them
+  history?: { coalesceInterval?: number; limit?: number };
+  // Called on each form event, for debugging / logging purposes
+  onEvent?: (event: FormEvent<Values, ErrorMessage, Fields>) => void;
+  // Splits the form into a multi-step wizard: each step lists its fields
+  steps?: (keyof Fields)[][];
+  // Maps errors (ex: structured error codes) to displayed messages, reapplied when it changes
+  formatError?: (error: ErrorMessage) => string;
+};
+
+// Errors reported by the server, created with the onSuccess fail helper
+export type SubmissionFailure<
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
+  fieldErrors: Partial<Record<keyof Fields, ErrorMessage>>;
+  formError: ErrorMessage | undefined;
 };
 
-export type Form<Values extends AnyRecord, ErrorMessage = string> = {
+export type Form<
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  Fields extends AnyRecord = FlatValues<Values>,
+> = {
   formStatus: FormStatus;
+  formError: ErrorMessage | undefined;
+  formattedFormError: string | undefined;
+  isDirty: boolean;
+  touchedFields: (keyof Fields)[];
+  canUndo: boolean;
+  canRedo: boolean;
+  currentStep: number;
+  stepStatuses: StepStatus[];
+
+  Field: (<N extends keyof Fields>(props: {
+    name: N;
+    children: FieldChildren<Fields[N], ErrorMessage>;
+  }) => ReactElement | null) & {
+    displayName?: string;
+  };
 
-  Field: (<N extends keyof Values>(props: {
+  ArrayField: (<N extends FieldArrayName<Fields>>(props: {
     name: N;
-    children: (
-      props: FieldState<Values[N], ErrorMessage> & {
-        ref: MutableRefObject<any>;
-        onChange: (value: Values[N]) => void;
-        onBlur: () => void;
-        focusNextField: () => void;
-      },
-    ) => ReactElement | null;
+    children: (array: FieldArray<ArrayItem<Fields[N]>, ErrorMessage>) => ReactElement | null;
   }) => ReactElement | null) & {
     displayName?: string;
   };
 
-  FieldsListener: (<N extends keyof Values>(props: {
+  useField: <N extends keyof Fields>(name: N) => FieldProps<Fields[N], ErrorMessage>;
+
+  useFieldArray: <N extends FieldArrayName<Fields>>(
+    name: N,
+  ) => FieldArray<ArrayItem<Fields[N]>, ErrorMessage>;
+
+  FieldsListener: (<
+    N extends keyof Fields,
+    Selection = { [N1 in N]: FieldState<Fields[N1], ErrorMessage> },
+  >(props: {
     names: N[];
-    children: (states: {
-      [N1 in N]: FieldState<Values[N1], ErrorMessage>;
-    }) => ReactElement | null;
+    // Rerenders only when the selected result changes (according to equalityFn)
+    selector?: (states: {
+      [N1 in N]: FieldState<Fields[N1], ErrorMessage>;
+    }) => Selection;
+    equalityFn?: (a: Selection, b: Selection) => boolean;
+    children: (selection: Selection) => ReactElement | null;
   }) => ReactElement | null) & {
     displayName?: string;
   };
 
-  getFieldState: <N extends keyof Values>(
+  useFormSelector: <Selection>(
+    selector: (
+      helpers: Pick<ValidateHelpers<Values, ErrorMessage, Fields>, "getFieldState">,
+    ) => Selection,
+    equalityFn?: (a: Selection, b: Selection) => boolean,
+  ) => Selection;
+
+  getFieldState: <N extends keyof Fields>(
     name: N,
     options?: { sanitize?: boolean },
-  ) => FieldState<Values[N], ErrorMessage>;
-  setFieldValue: <N extends keyof Values>(
+  ) => FieldState<Fields[N], ErrorMessage>;
+  setFieldValue: <N extends keyof Fields>(
     name: N,
-    value: Values[N],
+    value: Fields[N],
     options?: { validate?: boolean },
   ) => void;
-  setFieldError: (name: keyof Values, error?: ErrorMessage) => void;
+  setValues: (values: Partial<Fields>, options?: { validate?: boolean }) => void;
+  setFieldError: (name: keyof Fields, error?: ErrorMessage) => void;
+  setFieldErrors: (errors: Partial<Record<keyof Fields, ErrorMessage>>) => void;
+  clearErrors: (names?: (keyof Fields)[]) => void;
 
-  focusField: (name: keyof Values) => void;
-  resetField: (name: keyof Values, options?: { feedbackOnly?: boolean }) => void;
-  validateField: (name: keyof Values) => Promise<ErrorMessage | void>;
+  focusField: (name: keyof Fields) => void;
+  resetField: (name: keyof Fields, options?: { feedbackOnly?: boolean }) => void;
+  validateField: (name: keyof Fields) => Promise<ErrorMessage | void>;
 
-  listenFields: <N extends keyof Values>(
+  listenFields: <N extends keyof Fields>(
     names: N[],
-    listener: (states: { [N1 in N]: FieldState<Values[N1], ErrorMessage> }) => void,
+    listener: (states: { [N1 in N]: FieldState<Fields[N1], ErrorMessage> }) => void,
   ) => () => void;
+  subscribeEvents: (
+    listener: (event: FormEvent<Values, ErrorMessage, Fields>) => void,
+  ) => () => void;
+
+  getDirtyValues: () => SubmittedValues<Values>;
+  batch: (callback: () => void, options?: { rollback?: boolean }) => void;
+  undo: () => void;
+  redo: () => void;
+  clearHistory: () => void;
+  setInitialValues: (values: Partial<Fields>, options?: { keepDirty?: boolean }) => void;
 
   resetForm: (options?: { feedbackOnly?: boolean }) => void;
   submitForm: (
-    onSuccess: (values: Partial<Values>) => Promise<unknown> | void,
-    onFailure?: (errors: Partial<Record<keyof Values, ErrorMessage>>) => Promise<unknown> | void,
+    onSuccess: (
+      values: SubmittedValues<Values>,
+      details: {
+        dirtyValues: SubmittedValues<Values>;
+        // Non-blocking validation warnings, by field name
+        warnings: Partial<Record<keyof Fields, ErrorMessage>>;
+        signal: AbortSignal;
+        fail: (
+          fieldErrors: Partial<Record<keyof Fields, ErrorMessage>>,
+          formError?: ErrorMessage,
+        ) => SubmissionFailure<Values, ErrorMessage, Fields>;
+      },
+    ) => SubmissionFailure<Values, ErrorMessage, Fields> | Promise<unknown> | void,
+    onFailure?: (
+      errors: Partial<Record<keyof Fields, ErrorMessage>>,
+      details: {
+        itemErrors: FieldArrayErrors<Values, ErrorMessage, Fields>;
+        formError: ErrorMessage | undefined;
+        signal: AbortSignal;
+      },
+    ) => Promise<unknown> | void,
     options?: { avoidFocusOnError?: boolean },
   ) => void;
+  cancelSubmission: () => void;
+
+  goToStep: (index: number) => void;
+  nextStep: () => Promise<boolean>;
+  previousStep: () => void;
+};
+
+const FORM_KEY = Symbol("form");
+const SUBMISSION_KEY = Symbol("submission");
+
+// Failures returned (or thrown) by onSuccess, to distinguish them from any other value
+const submissionFailures = new WeakSet<object>();
+
+const isSubmissionFailure = <
+  Values extends AnyRecord,
+  ErrorMessage,
+  Fields extends AnyRecord = FlatValues<Values>,
+>(
+  value: unknown,
+): value is SubmissionFailure<Values, ErrorMessage, Fields> =>
+  typeof value === "object" && value !== null && submissionFailures.has(value);
+
+const fail = <
+  Values extends AnyRecord,
+  ErrorMessage,
+  Fields extends AnyRecord = FlatValues<Values>,
+>(
+  fieldErrors: Partial<Record<keyof Fields, ErrorMessage>>,
+  formError?: ErrorMessage,
+): SubmissionFailure<Values, ErrorMessage, Fields> => {
+  const failure = { fieldErrors, formError };
+  submissionFailures.add(failure);
+  return failure;
 };
 
 const identity = <T>(value: T) => value;
@@ -116,40 +486,87 @@ const noop = () => {};
 const extractInitialValue = <Value>(value: Value | (() => Value)): Value =>
   typeof value === "function" ? (value as () => Value)() : value;
 
-const isPromise = <T>(value: unknown): value is Promise<T> =>
-  !!value &&
-  (typeof value === "object" || typeof value === "function") &&
-  typeof (value as { then?: Function }).then === "function";
-
 export const combineValidators =
   <Value, ErrorMessage = string>(
     ...validators: (Validator<Value, ErrorMessage> | false)[]
   ): Validator<Value, ErrorMessage> =>
   (value) => {
+    type Result =
+      | ErrorMessage
+      | ValidatorWarning<ErrorMessage>
+      | ValidatorErrors<ErrorMessage>
+      | void;
     const [validator, ...nextValidators] = validators;
 
-    if (validator) {
-      const result = validator(value);
+    // Keeps the first warning, unless an error follows
+    const keepWarning = (warning: Result, nextResult: Result): Result =>
+      typeof nextResult === "undefined" || isValidatorWarning(nextResult) ? warning : nextResult;
 
-      if (isPromise(result)) {
-        return result.then((error) => {
-          if (typeof error !== "undefined") {
-            return error;
-          }
-          if (nextValidators.length > 0) {
-            return combineValidators(...nextValidators)(value);
-          }
-        });
+    // Warnings don't stop the chain
+    const next = (result: Result): ValidatorResult<ErrorMessage> => {
+      if (typeof result !== "undefined" && !isValidatorWarning(result)) {
+        return result;
       }
-
-      if (typeof result !== "undefined") {
+      if (nextValidators.length === 0) {
         return result;
       }
-    }
 
-    if (nextValidators.length > 0) {
-      return combineValidators(...nextValidators)(value);
+      const nextResult = combineValidators(...nextValidators)(value);
+
+      if (typeof result === "undefined") {
+        return nextResult;
+      }
+
+      return isPromise(nextResult)
+        ? nextResult.then((nextResult) => keepWarning(result, nextResult))
+        : keepWarning(result, nextResult);
+    };
+
+    if (!validator) {
+      return next(undefined);
     }
+
+    const result = validator(value);
+    return isPromise(result) ? result.then(next) : next(result);
+  };
+
+// Runs every validator in parallel and collects all the errors, in declaration order
+export const combineValidatorsAll =
+  <Value, ErrorMessage = string>(
+    ...validators: (Validator<Value, ErrorMessage> | false)[]
+  ): Validator<Value, ErrorMessage> =>
+  (value) => {
+    type Result =
+      | ErrorMessage
+      | ValidatorWarning<ErrorMessage>
+      | ValidatorErrors<ErrorMessage>
+      | void;
+    const results = validators.map((validator) => (validator ? validator(value) : undefined));
+
+    const collect = (results: Result[]): Result => {
+      const errors: ErrorMessage[] = [];
+      let warning: ValidatorWarning<ErrorMessage> | undefined;
+
+      results.forEach((result) => {
+        if (isValidatorErrors<ErrorMessage>(result)) {
+          errors.push(...result.errors);
+        } else if (isValidatorWarning<ErrorMessage>(result)) {
+          warning = warning ?? result;
+        } else if (typeof result !== "undefined") {
+          errors.push(result);
+        }
+      });
+
+      if (errors.length === 0) {
+        return warning;
+      }
+
+      return createValidatorErrors(errors);
+    };
+
+    return results.some((result) => isPromise(result))
+      ? Promise.all(results).then(collect)
+      : collect(results as Result[]);
   };
 
 export const hasDefinedKeys = <T extends AnyRecord, K extends keyof T = keyof T>(
@@ -159,70 +576,221 @@ export const hasDefinedKeys = <T extends AnyRecord, K extends keyof T = keyof T>
   [K1 in K]-?: Exclude<T[K1], undefined>;
 } => keys.every((key) => typeof object[key] !== "undefined");
 
-export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
+export const useForm = <
+  Values extends AnyRecord,
+  ErrorMessage = string,
+  // Values by field name, as a type parameter to index it like a plain record
+  Fields extends AnyRecord = FlatValues<Values>,
+>(
   fields: FormConfig<Values, ErrorMessage>,
-): Form<Values, ErrorMessage> => {
-  type Contract = Form<Values, ErrorMessage>;
-  type Name = keyof Values;
+  formOptions: FormOptions<Values, ErrorMessage> = {},
+): Form<Values, ErrorMessage, Fields> => {
+  type Contract = Form<Values, ErrorMessage, Fields>;
+  type Name = keyof Fields;
+  type FieldsConfig = { [N in Name]: FormFieldConfig<Fields[N], Values, ErrorMessage, Fields> };
+  type Options = FormOptions<Values, ErrorMessage, Fields>;
 
   const [, forceUpdate] = useReducer(() => [], []);
   const mounted = useRef(false);
-  const config = useRef(fields);
+  const config = useRef(fields as unknown as FieldsConfig);
+  const options = useRef(formOptions as Options);
   const formStatus = useRef<FormStatus>("untouched");
+  const currentStep = useRef(0);
+  const stepStatuses = useRef<StepStatus[]>([]);
+
+  // Errors returned by validateForm, merged with fields own validation
+  const formErrors = useRef<{
+    fieldErrors: Partial<Record<Name, ErrorMessage>>;
+    formError: ErrorMessage | undefined;
+  }>({ fieldErrors: {}, formError: undefined });
 
   useIsoLayoutEffect(() => {
-    config.current = fields;
+    config.current = fields as unknown as FieldsConfig;
+    options.current = formOptions as Options;
   });
 
+  // Pending validations / submission controllers
+  const controllers = useRef<
+    Partial<Record<Name | typeof FORM_KEY | typeof SUBMISSION_KEY, AbortController>>
+  >({});
+
   useEffect(() => {
+    const pendingControllers = controllers.current;
     mounted.current = true;
 
     return () => {
       mounted.current = false;
+      pendingControllers[FORM_KEY]?.abort();
+      pendingControllers[SUBMISSION_KEY]?.abort();
+
+      for (const name in pendingControllers) {
+        pendingControllers[name]?.abort();
+      }
     };
   }, []);
 
   type StateMap = {
     [N in Name]: Readonly<{
-      exposed: FieldState<Values[N], ErrorMessage>;
+      exposed: FieldState<Fields[N], ErrorMessage>;
       talkative: boolean;
+      touched: boolean; // blurred at least once
+      visited: boolean; // focused at least once
       validity:
         | { readonly tag: "unknown" }
         | { readonly tag: "validating" }
-        | { readonly tag: "valid" }
-        | { readonly tag: "invalid"; error: ErrorMessage };
+        | { readonly tag: "valid"; warning?: ErrorMessage }
+        | { readonly tag: "invalid"; error: ErrorMessage; errors?: ErrorMessage[] };
     }>;
   };
 
   const states = useRef() as MutableRefObject<StateMap>;
 
+  // Used for dirty tracking
+  const initialValues = useRef() as MutableRefObject<Fields>;
+  const configInitialValues = useRef() as MutableRefObject<Fields>; // Last read from config
+  const dirtyFields = useRef() as MutableRefObject<Set<Name>>;
+  const touchedFields = useRef() as MutableRefObject<Set<Name>>;
+  const disabledFields = useRef() as MutableRefObject<Set<Name>>;
+
   type CallbackMap = Record<Name, Set<() => void>>;
   type MountedMap = Record<Name, boolean>;
   type RefMap = Record<Name, MutableRefObject<any>>;
   type TimeoutMap = Record<Name, number | undefined>;
 
+  // Field arrays items are stored as internal fields, using generated keys
+  type ArrayMap = Partial<Record<Name, Name[]>>;
+  type ItemMap = Partial<Record<Name, { arrayName: Name; initialValue: unknown }>>;
+
   const callbacks = useRef() as MutableRefObject<CallbackMap>;
   const mounteds = useRef() as MutableRefObject<MountedMap>;
   const refs = useRef() as MutableRefObject<RefMap>;
   const timeouts = useRef() as MutableRefObject<TimeoutMap>;
 
+  const arrays = useRef() as MutableRefObject<ArrayMap>;
+  const items = useRef() as MutableRefObject<ItemMap>;
+
   const field = useRef() as MutableRefObject<Contract["Field"]>;
   const fieldsListener = useRef() as MutableRefObject<Contract["FieldsListener"]>;
+  const arrayField = useRef() as MutableRefObject<Contract["ArrayField"]>;
+  const useField = useRef() as MutableRefObject<Contract["useField"]>;
+  const useFieldArray = useRef() as MutableRefObject<Contract["useFieldArray"]>;
+  const useFormSelector = useRef() as MutableRefObject<Contract["useFormSelector"]>;
 
   const api = useMemo(() => {
-    const getDebounceInterval = (name: Name) => config.current[name].debounceInterval ?? 0;
-    const getEqualityFn = (name: Name) => config.current[name].equalityFn ?? Object.is;
-    const getInitialValue = (name: Name) => extractInitialValue(config.current[name].initialValue);
-    const getSanitize = (name: Name) => config.current[name].sanitize ?? identity;
-    const getStrategy = (name: Name) => config.current[name].strategy ?? "onSuccessOrBlur";
-    const getValidate = (name: Name) => config.current[name].validate ?? noop;
+    let lastItemId = 0;
+
+    const getFieldConfig = <N extends Name>(
+      name: N,
+    ): FieldConfig<Fields[N], Values, ErrorMessage, Fields> => {
+      const item = items.current[name];
+
+      return typeof item !== "undefined"
+        ? ((config.current[item.arrayName].item ?? {}) as FieldConfig<
+            Fields[N],
+            Values,
+            ErrorMessage,
+            Fields
+          >)
+        : config.current[name];
+    };
+
+    const getDebounceInterval = (name: Name) => getFieldConfig(name).debounceInterval ?? 0;
+    const getEqualityFn = (name: Name) => getFieldConfig(name).equalityFn ?? Object.is;
+    const getSanitize = (name: Name) => getFieldConfig(name).sanitize ?? identity;
+    const getStrategy = (name: Name) => getFieldConfig(name).strategy ?? "onSuccessOrBlur";
+    const getValidate = (name: Name) => getFieldConfig(name).validate ?? noop;
+
+    const getInitialValue = <N extends Name>(name: N): Fields[N] => {
+      const item = items.current[name];
+
+      return typeof item !== "undefined"
+        ? (item.initialValue as Fields[N])
+        : initialValues.current[name];
+    };
 
     const isMounted = (name: Name) => mounteds.current[name];
+
+    // Field arrays items are disabled with their array
+    const isDisabled = (name: Name): boolean => {
+      const item = items.current[name];
+      return disabledFields.current.has(typeof item !== "undefined" ? item.arrayName : name);
+    };
     const isTalkative = (name: Name) => states.current[name].talkative;
 
+    const isDirty = <N extends Name>(name: N, value: Fields[N]): boolean => {
+      const initialValue = getInitialValue(name);
+      const keys = arrays.current[name];
+
+      if (typeof keys === "undefined") {
+        return !getEqualityFn(name)(initialValue, value);
+      }
+
+      // Field arrays are compared item by item
+      const initialItems = initialValue as unknown as Fields[Name][];
+
+      return (
+        keys.length !== initialItems.length ||
+        keys.some(
+          (key, index) =>
+            !getEqualityFn(key)(
+              initialItems[index] as Fields[Name],
+              states.current[key].exposed.value,
+            ),
+        )
+      );
+    };
+
+    type FormattedErrors = Pick<
+      FieldState<unknown, ErrorMessage>,
+      "formattedError" | "formattedErrors" | "formattedWarning"
+    >;
+
+    // Errors are not formatted without formatError
+    const formatErrors = ({
+      error,
+      errors,
+      warning,
+    }: Pick<
+      FieldState<unknown, ErrorMessage>,
+      "error" | "errors" | "warning"
+    >): FormattedErrors => {
+      const { formatError } = options.current;
+
+      if (typeof formatError === "undefined") {
+        return { formattedError: undefined, formattedErrors: [], formattedWarning: undefined };
+      }
+
+      return {
+        formattedError: typeof error !== "undefined" ? formatError(error) : undefined,
+        formattedErrors: errors.map(formatError),
+        formattedWarning: typeof warning !== "undefined" ? formatError(warning) : undefined,
+      };
+    };
+
+    const isSameFormattedErrors = (a: FormattedErrors, b: FormattedErrors): boolean =>
+      a.formattedError === b.formattedError &&
+      a.formattedWarning === b.formattedWarning &&
+      a.formattedErrors.length === b.formattedErrors.length &&
+      a.formattedErrors.every((error, index) => error === b.formattedErrors[index]);
+
+    // Formatted errors are updated without re-running validation (ex: on locale change)
+    const reformatErrors = (): void => {
+      (Object.keys(states.current) as Name[]).forEach((name) => {
+        const state = states.current[name];
+        const formatted = formatErrors(state.exposed);
+
+        if (!isSameFormattedErrors(formatted, state.exposed)) {
+          states.current[name] = { ...state, exposed: { ...state.exposed, ...formatted } };
+          runCallbacks(name);
+        }
+      });
+    };
+
     const setState = <N extends Name>(
       name: N,
-      state: SetStateAction<{ value: Values[N] } & Pick<StateMap[N], "talkative" | "validity">>,
+      state: SetStateAction<
+        { value: Fields[N] } & Pick<StateMap[N], "talkative" | "touched" | "visited" | "validity">
+      >,
     ) => {
       const currentState = states.current[name];
 
@@ -231,10 +799,15 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
           ? state({
               value: currentState.exposed.value,
               talkative: currentState.talkative,
+              touched: currentState.touched,
+              visited: currentState.visited,
               validity: currentState.validity,
             })
           : state;
 
+      const formError =
+        nextState.validity.tag === "valid" ? formErrors.current.fieldErrors[name] : undefined;
+
       const exposed =
         !nextState.talkative || nextState.validity.tag === "unknown"
           ? // Avoid giving feedback too soon
@@ -242,18 +815,89 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
               validating: false,
               valid: !getValidate(name),
               error: undefined,
+              errors: [],
+              warning: undefined,
             }
           : {
               validating: nextState.validity.tag === "validating",
-              valid: nextState.validity.tag === "valid",
-              error: nextState.validity.tag === "invalid" ? nextState.validity.error : undefined,
+              valid: nextState.validity.tag === "valid" && typeof formError === "undefined",
+              error: nextState.validity.tag === "invalid" ? nextState.validity.error : formError,
+              errors:
+                nextState.validity.tag === "invalid"
+                  ? nextState.validity.errors ?? [nextState.validity.error]
+                  : typeof formError !== "undefined"
+                  ? [formError]
+                  : [],
+              warning: nextState.validity.tag === "valid" ? nextState.validity.warning : undefined,
             };
 
+      const dirty = isDirty(name, nextState.value);
+
       states.current[name] = {
         talkative: nextState.talkative,
+        touched: nextState.touched,
+        visited: nextState.visited,
         validity: nextState.validity,
-        exposed: { ...exposed, value: nextState.value },
+        exposed: {
+          ...exposed,
+          ...formatErrors(exposed),
+          value: nextState.value,
+          dirty,
+          touched: nextState.touched,
+          visited: nextState.visited,
+          disabled: isDisabled(name),
+        },
       };
+
+      // Not on registration
+      const changed =
+        typeof currentState !== "undefined" &&
+        !Object.is(currentState.exposed.value, nextState.value);
+
+      if (typeof items.current[name] !== "undefined") {
+        if (changed) {
+          recordHistory(name, currentState.exposed.value, nextState.value);
+        }
+      } else {
+        const wasDirty = dirtyFields.current.size > 0;
+
+        if (changed) {
+          scheduleDraftSave();
+
+          // Field arrays changes are recorded by items and by keys updates
+          if (typeof arrays.current[name] === "undefined") {
+            recordHistory(name, currentState.exposed.value, nextState.value);
+          }
+
+          emitFieldEvent(name, currentState, { type: "change" });
+          updateDisabledFields();
+        }
+
+        if (dirty) {
+          dirtyFields.current.add(name);
+        } else {
+          dirtyFields.current.delete(name);
+        }
+
+        if (wasDirty !== dirtyFields.current.size > 0 && mounted.current) {
+          forceUpdate(); // Rerender to update isDirty
+        }
+      }
+    };
+
+    const registerField = <N extends Name>(name: N, value: Fields[N]): void => {
+      setState(name, {
+        value,
+        talkative: false,
+        touched: false,
+        visited: false,
+        validity: { tag: "unknown" },
+      });
+
+      callbacks.current[name] = new Set();
+      mounteds.current[name] = false;
+      refs.current[name] = { current: null };
+      timeouts.current[name] = undefined;
     };
 
     const clearDebounceTimeout = (name: Name): boolean => {
@@ -268,18 +912,111 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
       return debounced;
     };
 
+    const eventListeners = new Set<(event: FormEvent<Values, ErrorMessage, Fields>) => void>();
+
+    const hasEventListeners = (): boolean =>
+      typeof options.current.onEvent !== "undefined" || eventListeners.size > 0;
+
+    const emitEvent = (event: FormEvent<Values, ErrorMessage, Fields>): void => {
+      options.current.onEvent?.(event);
+      eventListeners.forEach((listener) => listener(event));
+    };
+
+    const emitSubmitEnd = (): void => {
+      if (hasEventListeners()) {
+        emitEvent({ type: "submitEnd", timestamp: Date.now(), formStatus: formStatus.current });
+      }
+    };
+
+    const getEventState = <N extends Name>(
+      state: StateMap[N],
+    ): FieldEventState<Fields[N], ErrorMessage> => ({
+      value: state.exposed.value,
+      talkative: state.talkative,
+      touched: state.touched,
+      visited: state.visited,
+      validity: state.validity,
+    });
+
+    const emitFieldEvent = (
+      name: Name,
+      prevState: StateMap[Name],
+      details:
+        | { type: "change" | "blur" | "talkative" | "reset" | "validateStart" }
+        | { type: "validateEnd"; error: ErrorMessage | void }
+        | { type: "validationDiscarded"; reason: "aborted" | "outdated" },
+    ): void => {
+      // Field arrays items changes are reported through their array (disposed items included)
+      if (
+        !hasEventListeners() ||
+        typeof items.current[name] !== "undefined" ||
+        typeof states.current[name] === "undefined"
+      ) {
+        return;
+      }
+
+      emitEvent({
+        ...details,
+        name,
+        timestamp: Date.now(),
+        prevState: getEventState(prevState),
+        nextState: getEventState(states.current[name]),
+      } as FormEvent<Values, ErrorMessage, Fields>);
+    };
+
+    const subscribeEvents: Contract["subscribeEvents"] = (listener) => {
+      eventListeners.add(listener);
+
+      return () => {
+        eventListeners.delete(listener);
+      };
+    };
+
+    // Updates made during a batch are flushed once it ends
+    let batchDepth = 0;
+    let pendingFormValidation = false;
+    const pendingValidations = new Set<Name>();
+    const pendingCallbacks = new Set<Name>();
+
+    // Selectors are computed against a version bumped on each field state change
+    let statesVersion = 0;
+    const selectorCallbacks = new Set<() => void>();
+
     const runCallbacks = (name: Name): void => {
+      if (batchDepth > 0) {
+        pendingCallbacks.add(name);
+        return;
+      }
+
+      statesVersion++;
       callbacks.current[name].forEach((callback) => callback());
+      selectorCallbacks.forEach((callback) => callback());
+    };
+
+    const getStatesVersion = (): number => statesVersion;
+
+    const subscribeSelector = (callback: () => void): (() => void) => {
+      selectorCallbacks.add(callback);
+
+      return () => {
+        selectorCallbacks.delete(callback);
+      };
     };
 
     const setTalkative = (name: Name, strategies?: Strategy[]): void => {
       const strategy = getStrategy(name);
 
       if (!strategies || strategies.some((item) => strategy === item)) {
+        const prevState = states.current[name];
+
         setState(name, (prevState) => ({
           ...prevState,
           talkative: true,
         }));
+
+        if (!prevState.talkative) {
+          emitFieldEvent(name, prevState, { type: "talkative" });
+        }
       }
     };
 
@@ -290,17 +1027,37 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
       }));
     };
 
-    const setError = (name: Name, error: ErrorMessage | void): void => {
+    const setError = (
+      name: Name,
+      error: ErrorMessage | void,
+      details: { errors?: ErrorMessage[]; warning?: ErrorMessage } = {},
+    ): void => {
+      const { errors, warning } = details;
+
       setState(name, (prevState) => ({
         ...prevState,
-        validity: typeof error !== "undefined" ? { tag: "invalid", error } : { tag: "valid" },
+        validity:
+          typeof error !== "undefined"
+            ? { tag: "invalid", error, errors }
+            : { tag: "valid", warning },
       }));
     };
 
+    const setEditing = (): void => {
+      if (
+        formStatus.current === "untouched" ||
+        formStatus.current === "submitted" ||
+        formStatus.current === "failed"
+      ) {
+        formStatus.current = "editing";
+        forceUpdate();
+      }
+    };
+
     const getFieldState = <N extends Name>(
       name: N,
       options: { sanitize?: boolean } = {},
-    ): FieldState<Values[N], ErrorMessage> => {
+    ): FieldState<Fields[N], ErrorMessage> => {
       const { exposed } = states.current[name];
 
       if (!options.sanitize) {
@@ -311,30 +1068,171 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
 
       return {
         ...exposed,
-        value: sanitize(exposed.value) as Values[N],
+        value: sanitize(exposed.value) as Fields[N],
       };
     };
 
-    const internalValidateField = <N extends Name>(name: N): ValidatorResult<ErrorMessage> => {
+    // Shared to keep useFieldArray snapshot stable for fields without item config
+    const noArrayKeys: Name[] = [];
+    const getArrayKeys = (name: Name): Name[] => arrays.current[name] ?? noArrayKeys;
+
+    // Field arrays values are built using their items sanitized values
+    const getSanitizedValue = <N extends Name>(name: N): Fields[N] =>
+      typeof arrays.current[name] !== "undefined"
+        ? (getArrayKeys(name).map(
+            (key) => getFieldState(key, { sanitize: true }).value,
+          ) as unknown as Fields[N])
+        : getFieldState(name, { sanitize: true }).value;
+
+    const isDisposedItem = (key: Name): boolean => {
+      const item = items.current[key];
+      return typeof item !== "undefined" && getArrayKeys(item.arrayName).indexOf(key) === -1;
+    };
+
+    const disposeItem = (key: Name): void => {
+      clearDebounceTimeout(key);
+      abortSignal(key);
+
+      // Mounted items will be disposed on unmount
+      if (!isMounted(key)) {
+        delete states.current[key];
+        delete callbacks.current[key];
+        delete mounteds.current[key];
+        delete refs.current[key];
+        delete timeouts.current[key];
+        delete controllers.current[key];
+        delete items.current[key];
+      }
+    };
+
+    const createItem = (arrayName: Name, initialValue: unknown): Name => {
+      const key = `${String(arrayName)}#${++lastItemId}` as Name;
+
+      items.current[key] = { arrayName, initialValue };
+      registerField(key, initialValue as Fields[Name]);
+
+      return key;
+    };
+
+    const setArrayItems = (name: Name, values: readonly unknown[]): void => {
+      const prevKeys = getArrayKeys(name);
+      const nextKeys = values.map((value) => createItem(name, value));
+
+      arrays.current[name] = nextKeys;
+      recordHistory(name, getHistoryItems(prevKeys), getHistoryItems(nextKeys));
+      prevKeys.forEach(disposeItem);
+    };
+
+    const getArrayValue = <N extends Name>(name: N): Fields[N] =>
+      getArrayKeys(name).map((key) => states.current[key].exposed.value) as unknown as Fields[N];
+
+    const abortSignal = (name: Name | typeof FORM_KEY | typeof SUBMISSION_KEY): void => {
+      const controller = controllers.current[name];
+
+      if (typeof controller !== "undefined") {
+        controller.abort();
+        controllers.current[name] = undefined;
+      }
+    };
+
+    // Unmounted fields pending validations are discarded: their feedback is hidden until revalidated
+    const discardValidation = (name: Name): void => {
+      clearDebounceTimeout(name);
+      abortSignal(name);
+
+      if (states.current[name].validity.tag === "validating") {
+        setState(name, (prevState) => ({ ...prevState, validity: { tag: "unknown" } }));
+        runCallbacks(name);
+      }
+    };
+
+    const createSignal = (name: Name | typeof FORM_KEY | typeof SUBMISSION_KEY): AbortSignal => {
+      abortSignal(name);
+
+      const controller = new AbortController();
+      controllers.current[name] = controller;
+
+      return controller.signal;
+    };
+
+    const updateDisabledFields = (): void => {
+      Object.keys(config.current).forEach((name: Name) => {
+        const { enabled } = config.current[name];
+        const disabled = typeof enabled !== "undefined" && !enabled({ getFieldState });
+
+        if (disabled === disabledFields.current.has(name)) {
+          return;
+        }
+
+        if (disabled) {
+          disabledFields.current.add(name);
+        } else {
+          disabledFields.current.delete(name);
+        }
+
+        [name, ...getArrayKeys(name)].forEach((key) => {
+          if (disabled) {
+            clearDebounceTimeout(key);
+            abortSignal(key);
+          }
+
+          // Disabled fields feedback is hidden
+          setState(key, (prevState) => ({
+            ...prevState,
+            validity: disabled ? { tag: "unknown" } : prevState.validity,
+          }));
+
+          runCallbacks(key);
+        });
+      });
+    };
+
+    const splitResult = (
+      result: ErrorMessage | ValidatorWarning<ErrorMessage> | ValidatorErrors<ErrorMessage> | void,
+    ): [
+      error: ErrorMessage | void,
+      details: { errors?: ErrorMessage[]; warning?: ErrorMessage },
+    ] => {
+      if (isValidatorWarning<ErrorMessage>(result)) {
+        return [undefined, { warning: result.warning }];
+      }
+      if (isValidatorErrors<ErrorMessage>(result)) {
+        return [result.errors[0], { errors: result.errors }];
+      }
+
+      return [result, {}];
+    };
+
+    const internalValidateField = <N extends Name>(name: N): ErrorResult<ErrorMessage> => {
+      if (isDisabled(name)) {
+        return;
+      }
+
       const debounced = clearDebounceTimeout(name);
 
       const sanitizeAtStart = getSanitize(name);
       const validate = getValidate(name);
-      const valueAtStart = sanitizeAtStart(states.current[name].exposed.value);
+      const stateAtStart = states.current[name];
+      const valueAtStart = sanitizeAtStart(stateAtStart.exposed.value);
+      const signal = createSignal(name);
 
-      const promiseOrError = validate(valueAtStart, {
+      const promiseOrResult = validate(valueAtStart, {
+        signal,
         getFieldState,
         focusField,
       });
 
-      if (!isPromise(promiseOrError)) {
-        const error = promiseOrError;
+      if (!isPromise(promiseOrResult)) {
+        const [error, details] = splitResult(promiseOrResult);
+        controllers.current[name] = undefined;
+        emitFieldEvent(name, stateAtStart, { type: "validateStart" });
 
         if (error === undefined) {
           setTalkative(name, ["onSuccess", "onSuccessOrBlur"]);
         }
 
-        setError(name, error);
+        setError(name, error, details);
+        emitFieldEvent(name, stateAtStart, { type: "validateEnd", error });
         runCallbacks(name);
 
         return error;
@@ -345,24 +1243,53 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
         runCallbacks(name);
       }
 
-      return promiseOrError
-        .then((error) => {
+      emitFieldEvent(name, stateAtStart, { type: "validateStart" });
+
+      return promiseOrResult
+        .then((result) => {
+          if (signal.aborted) {
+            emitFieldEvent(name, states.current[name], {
+              type: "validationDiscarded",
+              reason: "aborted",
+            });
+
+            return;
+          }
+
+          controllers.current[name] = undefined;
+
+          const stateAtEnd = states.current[name];
           const equalityFn = getEqualityFn(name);
-          const valueAtEnd = sanitizeAtStart(states.current[name].exposed.value);
+          const valueAtEnd = sanitizeAtStart(stateAtEnd.exposed.value);
 
           if (!equalityFn(valueAtStart, valueAtEnd)) {
+            emitFieldEvent(name, stateAtEnd, { type: "validationDiscarded", reason: "outdated" });
             return;
           }
+
+          const [error, details] = splitResult(result);
+
           if (error === undefined) {
             setTalkative(name, ["onSuccess", "onSuccessOrBlur"]);
           }
 
-          setError(name, error);
+          setError(name, error, details);
+          emitFieldEvent(name, stateAtEnd, { type: "validateEnd", error });
           runCallbacks(name);
 
           return error;
         })
         .catch((error) => {
+          // Aborted requests (ex: fetch calls) reject
+          if (signal.aborted) {
+            emitFieldEvent(name, states.current[name], {
+              type: "validationDiscarded",
+              reason: "aborted",
+            });
+
+            return;
+          }
+
           if (process.env.NODE_ENV === "development") {
             console.error(
               `Something went wrong during "${String(
@@ -374,173 +1301,1088 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
         });
     };
 
-    const setFieldValue: Contract["setFieldValue"] = (name, value, options = {}) => {
-      setState(name, (prevState) => ({
-        ...prevState,
-        value,
-      }));
+    const addDependency = (name: Name, dependency: Name): void => {
+      let lastValue = states.current[dependency].exposed.value;
 
-      if (Boolean(options.validate)) {
-        setTalkative(name);
-      }
+      callbacks.current[dependency].add(() => {
+        const { value } = states.current[dependency].exposed;
 
-      void internalValidateField(name);
-    };
+        if (Object.is(value, lastValue)) {
+          return;
+        }
 
-    const setFieldError: Contract["setFieldError"] = (name, error) => {
-      setError(name, error);
-      setTalkative(name);
-      runCallbacks(name);
+        lastValue = value;
+
+        // Avoid validating an unmounted / untouched field
+        if (isMounted(name) && states.current[name].validity.tag !== "unknown") {
+          void internalValidateField(name);
+        }
+      });
     };
 
-    const focusField: Contract["focusField"] = (name) => {
-      const ref = refs.current[name];
+    let lastFormValidationId = 0;
 
-      if (ref.current && typeof ref.current.focus === "function") {
-        ref.current.focus();
+    const runFormValidation = ():
+      | FormValidatorResult<Values, ErrorMessage, Fields>
+      | Promise<FormValidatorResult<Values, ErrorMessage, Fields>> => {
+      const { validateForm } = options.current;
+
+      if (typeof validateForm === "undefined") {
+        return;
       }
-    };
 
-    const resetField: Contract["resetField"] = (name, options = {}) => {
-      clearDebounceTimeout(name);
+      const values = Object.keys(config.current).reduce((acc, name: Name) => {
+        acc[name] = getSanitizedValue(name);
+        return acc;
+      }, {} as Fields);
 
-      setState(name, ({ value }) => ({
-        value: !options.feedbackOnly ? getInitialValue(name) : value,
-        talkative: false,
-        validity: { tag: "unknown" },
-      }));
+      const signal = createSignal(FORM_KEY);
+      const result = validateForm(values, { signal, getFieldState, focusField });
 
-      runCallbacks(name);
-    };
+      if (!isPromise(result)) {
+        controllers.current[FORM_KEY] = undefined;
+        return result;
+      }
+
+      return result.catch((error) => {
+        if (!signal.aborted && process.env.NODE_ENV === "development") {
+          console.error(
+            "Something went wrong during form validation. Don't forget to handle Promise rejection.\n",
+            error,
+          );
+        }
+      });
+    };
+
+    const setFormErrors = (result: FormValidatorResult<Values, ErrorMessage, Fields>): void => {
+      const { fieldErrors: prevFieldErrors, formError: prevFormError } = formErrors.current;
+      const { fieldErrors = {}, formError }: Exclude<typeof result, void> = result ?? {};
+
+      formErrors.current = { fieldErrors, formError };
+
+      Object.keys(config.current).forEach((name: Name) => {
+        if (prevFieldErrors[name] !== fieldErrors[name]) {
+          setState(name, (prevState) => prevState);
+          runCallbacks(name);
+        }
+      });
+
+      if (prevFormError !== formError && mounted.current) {
+        forceUpdate();
+      }
+    };
+
+    const revalidateForm = (): void => {
+      if (!options.current.validateFormOnChange) {
+        return;
+      }
+
+      const validationId = ++lastFormValidationId;
+      const result = runFormValidation();
+
+      if (!isPromise(result)) {
+        return setFormErrors(result);
+      }
+
+      void result.then((result) => {
+        // Discard outdated results
+        if (validationId === lastFormValidationId) {
+          setFormErrors(result);
+        }
+      });
+    };
+
+    const handleArrayChange = (name: Name): void => {
+      setState(name, (prevState) => ({
+        ...prevState,
+        value: getArrayValue(name),
+      }));
+
+      setTalkative(name, ["onChange"]);
+      void internalValidateField(name);
+    };
+
+    const updateArrayKeys = (name: Name, update: (keys: Name[]) => Name[]): void => {
+      const prevKeys = getArrayKeys(name);
+      const nextKeys = update(prevKeys.slice());
+
+      arrays.current[name] = nextKeys;
+      recordHistory(name, getHistoryItems(prevKeys), getHistoryItems(nextKeys));
+      prevKeys.filter((key) => nextKeys.indexOf(key) === -1).forEach(disposeItem);
+
+      setEditing();
+      handleArrayChange(name);
+      revalidateForm();
+    };
+
+    const setFieldValue: Contract["setFieldValue"] = (name, value, options = {}) => {
+      if (typeof arrays.current[name] !== "undefined") {
+        setArrayItems(name, value as unknown as unknown[]);
+      }
+
+      setState(name, (prevState) => ({
+        ...prevState,
+        value,
+      }));
+
+      if (Boolean(options.validate)) {
+        setTalkative(name);
+      }
+
+      if (batchDepth > 0) {
+        pendingValidations.add(name);
+        pendingFormValidation = true;
+        return;
+      }
+
+      // Disabled fields are not validated, but their subscribers are notified
+      if (isDisabled(name)) {
+        runCallbacks(name);
+      } else {
+        void internalValidateField(name);
+      }
+
+      revalidateForm();
+    };
+
+    const setValues: Contract["setValues"] = (values, options) => {
+      batch(() => {
+        Object.keys(config.current).forEach((name: Name) => {
+          if (Object.prototype.hasOwnProperty.call(values, name)) {
+            setFieldValue(name, values[name] as Fields[Name], options);
+          }
+        });
+      });
+    };
+
+    const takeSnapshot = () => ({
+      states: { ...states.current },
+      initialValues: { ...initialValues.current },
+      dirtyFields: new Set(dirtyFields.current),
+      touchedFields: new Set(touchedFields.current),
+      callbacks: { ...callbacks.current },
+      mounteds: { ...mounteds.current },
+      refs: { ...refs.current },
+      timeouts: { ...timeouts.current },
+      arrays: { ...arrays.current },
+      items: { ...items.current },
+      formErrors: formErrors.current,
+      formStatus: formStatus.current,
+      pendingValidations: new Set(pendingValidations),
+      pendingFormValidation,
+      // Coalesced history entries are updated in place
+      past: past.map(copyHistoryEntry),
+      future: future.map(copyHistoryEntry),
+      historyGroupOpen,
+      lastRecordTime,
+    });
+
+    const restoreSnapshot = (snapshot: ReturnType<typeof takeSnapshot>): void => {
+      Object.keys(snapshot.states).forEach((name: Name) => {
+        if (states.current[name] !== snapshot.states[name]) {
+          pendingCallbacks.add(name);
+        }
+      });
+
+      states.current = snapshot.states;
+      initialValues.current = snapshot.initialValues;
+      dirtyFields.current = snapshot.dirtyFields;
+      touchedFields.current = snapshot.touchedFields;
+      callbacks.current = snapshot.callbacks;
+      mounteds.current = snapshot.mounteds;
+      refs.current = snapshot.refs;
+      timeouts.current = snapshot.timeouts;
+      arrays.current = snapshot.arrays;
+      items.current = snapshot.items;
+      formErrors.current = snapshot.formErrors;
+      formStatus.current = snapshot.formStatus;
+
+      pendingValidations.clear();
+      snapshot.pendingValidations.forEach((name) => pendingValidations.add(name));
+      pendingFormValidation = snapshot.pendingFormValidation;
+      past = snapshot.past;
+      future = snapshot.future;
+      historyGroupOpen = snapshot.historyGroupOpen;
+      lastRecordTime = snapshot.lastRecordTime;
+
+      if (mounted.current) {
+        forceUpdate();
+      }
+    };
+
+    const flushBatch = (): void => {
+      batchDepth++; // Validations callbacks are collected too
+
+      // Skip items disposed during the batch
+      const isRegistered = (name: Name) => typeof states.current[name] !== "undefined";
+
+      pendingValidations.forEach((name) => {
+        if (!isRegistered(name)) {
+          return;
+        }
+
+        if (isDisabled(name)) {
+          runCallbacks(name);
+        } else {
+          void internalValidateField(name);
+        }
+      });
+      pendingValidations.clear();
+
+      if (pendingFormValidation) {
+        pendingFormValidation = false;
+        revalidateForm();
+      }
+
+      batchDepth--;
+
+      const names = Array.from(pendingCallbacks).filter(isRegistered);
+      pendingCallbacks.clear();
+      names.forEach(runCallbacks);
+    };
+
+    const batch: Contract["batch"] = (callback, options = {}) => {
+      const snapshot = options.rollback ? takeSnapshot() : undefined;
+      batchDepth++;
+
+      try {
+        callback();
+      } catch (error) {
+        if (typeof snapshot !== "undefined") {
+          restoreSnapshot(snapshot);
+        }
+
+        throw error;
+      } finally {
+        batchDepth--;
+
+        if (batchDepth === 0) {
+          flushBatch();
+        }
+      }
+    };
+
+    type HistoryEntry = {
+      changes: { name: Name; prevValue: unknown; nextValue: unknown }[];
+    };
+
+    // Field arrays keys are recorded to keep items state across undo / redo
+    type HistoryItem = { key: Name; value: unknown; initialValue: unknown };
+
+    const getHistoryItems = (keys: Name[]): HistoryItem[] =>
+      keys.map((key) => ({
+        key,
+        value: states.current[key].exposed.value,
+        initialValue: items.current[key]?.initialValue,
+      }));
+
+    let past: HistoryEntry[] = [];
+    let future: HistoryEntry[] = [];
+    let historyGroupOpen = false; // Changes made in the same tick are undone together
+    let lastRecordTime = 0;
+    let restoringHistory = false;
+
+    const copyHistoryEntry = (entry: HistoryEntry): HistoryEntry => ({
+      changes: entry.changes.map((change) => ({ ...change })),
+    });
+
+    const canUndo = (): boolean => past.length > 0;
+    const canRedo = (): boolean => future.length > 0;
+
+    const recordHistory = (name: Name, prevValue: unknown, nextValue: unknown): void => {
+      const { history } = options.current;
+
+      if (typeof history === "undefined" || restoringHistory || !mounted.current) {
+        return;
+      }
+
+      const { coalesceInterval = 500, limit = 100 } = history;
+      const couldUndo = canUndo();
+      const couldRedo = canRedo();
+      const lastEntry = past[past.length - 1];
+      const now = Date.now();
+
+      future = [];
+
+      const coalesce =
+        typeof lastEntry !== "undefined" &&
+        (historyGroupOpen ||
+          (lastEntry.changes.length === 1 &&
+            lastEntry.changes[0]?.name === name &&
+            now - lastRecordTime < coalesceInterval));
+
+      if (coalesce) {
+        const change = lastEntry.changes.find((change) => change.name === name);
+
+        if (typeof change !== "undefined") {
+          change.nextValue = nextValue;
+        } else {
+          lastEntry.changes.push({ name, prevValue, nextValue });
+        }
+      } else {
+        past = [...past, { changes: [{ name, prevValue, nextValue }] }].slice(-limit);
+        historyGroupOpen = true;
+
+        void Promise.resolve().then(() => {
+          historyGroupOpen = false;
+        });
+      }
+
+      lastRecordTime = now;
+
+      if (couldUndo !== canUndo() || couldRedo !== canRedo()) {
+        forceUpdate(); // Rerender to update canUndo / canRedo
+      }
+    };
+
+    const restoreArrayItems = (name: Name, historyItems: HistoryItem[]): void => {
+      const prevKeys = getArrayKeys(name);
+
+      const nextKeys = historyItems.map(({ key, value, initialValue }) => {
+        if (typeof states.current[key] === "undefined") {
+          // Removed items are registered again with their key
+          items.current[key] = { arrayName: name, initialValue };
+          registerField(key, value as Fields[Name]);
+        } else {
+          setState(key, (prevState) => ({
+            ...prevState,
+            value: value as Fields[Name],
+          }));
+        }
+
+        return key;
+      });
+
+      arrays.current[name] = nextKeys;
+      prevKeys.filter((key) => nextKeys.indexOf(key) === -1).forEach(disposeItem);
+    };
+
+    const restoreHistoryChange = (name: Name, value: unknown): void => {
+      // Skip items removed without being recorded
+      if (typeof states.current[name] === "undefined") {
+        return;
+      }
+
+      const item = items.current[name];
+      const arrayName = typeof item !== "undefined" ? item.arrayName : name;
+
+      if (typeof arrays.current[name] !== "undefined") {
+        restoreArrayItems(name, value as HistoryItem[]);
+      } else {
+        setFieldValue(name, value as Fields[Name]);
+        setTalkative(name, ["onChange"]);
+      }
+
+      // Field arrays values are built using their items
+      if (typeof arrays.current[arrayName] !== "undefined") {
+        setState(arrayName, (prevState) => ({
+          ...prevState,
+          value: getArrayValue(arrayName),
+        }));
+
+        setTalkative(arrayName, ["onChange"]);
+        pendingValidations.add(arrayName);
+        pendingFormValidation = true;
+      }
+    };
+
+    const restoreHistoryEntry = (entry: HistoryEntry, key: "prevValue" | "nextValue"): void => {
+      restoringHistory = true;
+      historyGroupOpen = false;
+      lastRecordTime = 0; // Next changes get their own entry
+
+      try {
+        // Restored values are validated like user changes
+        batch(() => {
+          entry.changes.forEach((change) => {
+            restoreHistoryChange(change.name, change[key]);
+          });
+        });
+      } finally {
+        restoringHistory = false;
+      }
+
+      setEditing();
+      forceUpdate();
+
+      const [firstChange] = entry.changes;
+
+      if (typeof firstChange !== "undefined") {
+        focusField(firstChange.name);
+      }
+    };
+
+    const undo: Contract["undo"] = () => {
+      const entry = past[past.length - 1];
+
+      if (typeof entry !== "undefined") {
+        past = past.slice(0, -1);
+        future = [...future, entry];
+        restoreHistoryEntry(entry, "prevValue");
+      }
+    };
+
+    const redo: Contract["redo"] = () => {
+      const entry = future[future.length - 1];
+
+      if (typeof entry !== "undefined") {
+        future = future.slice(0, -1);
+        past = [...past, entry];
+        restoreHistoryEntry(entry, "nextValue");
+      }
+    };
+
+    const clearHistory: Contract["clearHistory"] = () => {
+      const hadHistory = canUndo() || canRedo();
+
+      past = [];
+      future = [];
+      historyGroupOpen = false;
+
+      if (hadHistory && mounted.current) {
+        forceUpdate();
+      }
+    };
+
+    const setFieldError: Contract["setFieldError"] = (name, error) => {
+      pendingValidations.delete(name); // Explicit errors win over batched validations
+      setError(name, error);
+      setTalkative(name);
+      runCallbacks(name);
+    };
+
+    const setFieldErrors: Contract["setFieldErrors"] = (errors) => {
+      Object.keys(config.current).forEach((name: Name) => {
+        if (Object.prototype.hasOwnProperty.call(errors, name)) {
+          setFieldError(name, errors[name]);
+        }
+      });
+    };
+
+    const clearErrors: Contract["clearErrors"] = (names) => {
+      const { fieldErrors, formError } = formErrors.current;
+      const nextFieldErrors = { ...fieldErrors };
+      const clearAll = typeof names === "undefined";
+
+      (names ?? Object.keys(config.current)).forEach((name) => {
+        delete nextFieldErrors[name];
+
+        setState(name, (prevState) =>
+          prevState.validity.tag === "invalid"
+            ? { ...prevState, validity: { tag: "unknown" } }
+            : prevState,
+        );
+
+        runCallbacks(name);
+      });
+
+      formErrors.current = {
+        fieldErrors: nextFieldErrors,
+        formError: clearAll ? undefined : formError,
+      };
+
+      if (clearAll && typeof formError !== "undefined" && mounted.current) {
+        forceUpdate();
+      }
+    };
+
+    const focusField: Contract["focusField"] = (name) => {
+      // Focusing a field array focuses its first item
+      const [firstKey = name] = getArrayKeys(name);
+      const ref = refs.current[firstKey];
+
+      if (ref.current && typeof ref.current.focus === "function") {
+        ref.current.focus();
+      }
+    };
+
+    const resetFieldState: Contract["resetField"] = (name, options = {}) => {
+      const prevState = states.current[name];
+      clearDebounceTimeout(name);
+      abortSignal(name);
+
+      const value = !options.feedbackOnly
+        ? getInitialValue(name)
+        : states.current[name].exposed.value;
+
+      if (typeof arrays.current[name] !== "undefined") {
+        if (!options.feedbackOnly) {
+          setArrayItems(name, value as unknown as unknown[]);
+        } else {
+          getArrayKeys(name).forEach((key) => resetFieldState(key, options));
+        }
+      }
+
+      setState(name, (prevState) => ({
+        value,
+        talkative: false,
+        touched: options.feedbackOnly ? prevState.touched : false,
+        visited: options.feedbackOnly ? prevState.visited : false,
+        validity: { tag: "unknown" },
+      }));
+
+      if (!options.feedbackOnly) {
+        touchedFields.current.delete(name);
+      }
+
+      emitFieldEvent(name, prevState, { type: "reset" });
+      runCallbacks(name);
+    };
+
+    const resetField: Contract["resetField"] = (name, options = {}) => {
+      // Follows initialValue changes
+      if (!options.feedbackOnly && readInitialValue(name)) {
+        initialValues.current[name] = configInitialValues.current[name];
+      }
+
+      resetFieldState(name, options);
+    };
+
+    const validateField: Contract["validateField"] = (name) => {
+      if (!isMounted(name)) {
+        return Promise.resolve(undefined);
+      }
+
+      setTalkative(name);
+      return Promise.resolve(internalValidateField(name));
+    };
+
+    const listenFields: Contract["listenFields"] = (names, listener) => {
+      const callback = () => {
+        listener(
+          names.reduce(
+            (acc, name) => {
+              acc[name] = getFieldState(name);
+              return acc;
+            },
+            {} as {
+              [N1 in (typeof names)[number]]: FieldState<Fields[N1], ErrorMessage>;
+            },
+          ),
+        );
+      };
+
+      names.forEach((name) => callbacks.current[name].add(callback));
+
+      return () => {
+        names.forEach((name) => callbacks.current[name].delete(callback));
+      };
+    };
+
+    const getOnChange =
+      <N extends Name>(name: N) =>
+      (value: Fields[N]): void => {
+        const debounceInterval = getDebounceInterval(name);
+        const item = items.current[name];
+
+        setState(name, (prevState) => ({
+          ...prevState,
+          value,
+        }));
+
+        setTalkative(name, ["onChange"]);
+        clearDebounceTimeout(name);
+        setEditing();
+
+        if (typeof item !== "undefined") {
+          handleArrayChange(item.arrayName);
+        }
+
+        // Disabled fields are not validated
+        if (isDisabled(name)) {
+          runCallbacks(name);
+          revalidateForm();
+          return;
+        }
+
+        if (debounceInterval === 0) {
+          void internalValidateField(name);
+          revalidateForm();
+          return;
+        }
+
+        setValidating(name);
+        runCallbacks(name);
+        revalidateForm();
+
+        timeouts.current[name] = setTimeout(() => {
+          if (isMounted(name)) {
+            void internalValidateField(name);
+          } else {
+            clearDebounceTimeout(name);
+          }
+        }, debounceInterval) as unknown as number;
+      };
+
+    const formatValue = <N extends Name>(name: N, value: Fields[N]): string => {
+      const { format } = getFieldConfig(name);
+
+      if (typeof format !== "undefined") {
+        return format(value);
+      }
+
+      return value == null ? "" : String(value);
+    };
+
+    // Caret positions to restore once the formatted text is rendered
+    const pendingCarets = new Map<Name, number>();
+
+    const getOnChangeText =
+      <N extends Name>(name: N) =>
+      (text: string): void => {
+        const { format, parse } = getFieldConfig(name);
+        const value = typeof parse !== "undefined" ? parse(text) : (text as Fields[N]);
+        const input = refs.current[name].current as Partial<HTMLInputElement> | null;
+
+        if (
+          typeof format !== "undefined" &&
+          input != null &&
+          typeof input.selectionStart === "number" &&
+          typeof input.setSelectionRange === "function"
+        ) {
+          const significantChars = countSignificantChars(text.slice(0, input.selectionStart));
+          pendingCarets.set(name, getCaretPosition(format(value), significantChars));
+        }
+
+        getOnChange(name)(value);
+      };
+
+    const restoreCaret = (name: Name): void => {
+      const caret = pendingCarets.get(name);
+      const input = refs.current[name].current as Partial<HTMLInputElement> | null;
+
+      if (typeof caret === "undefined") {
+        return;
+      }
+
+      pendingCarets.delete(name);
+
+      if (input != null && typeof input.setSelectionRange === "function") {
+        input.setSelectionRange(caret, caret);
+      }
+    };
+
+    const setVisited = (name: Name): void => {
+      if (states.current[name].visited) {
+        return;
+      }
+
+      setState(name, (prevState) => ({ ...prevState, visited: true }));
+      runCallbacks(name);
+
+      const item = items.current[name];
+
+      if (typeof item !== "undefined") {
+        setVisited(item.arrayName);
+      }
+    };
+
+    const setTouched = (name: Name): void => {
+      if (states.current[name].touched) {
+        return;
+      }
+
+      setState(name, (prevState) => ({ ...prevState, touched: true }));
+      runCallbacks(name);
+
+      const item = items.current[name];
+
+      if (typeof item !== "undefined") {
+        return setTouched(item.arrayName);
+      }
+
+      touchedFields.current.add(name);
+
+      if (mounted.current) {
+        forceUpdate(); // Rerender to update touchedFields
+      }
+    };
+
+    const getOnFocus = (name: Name) => (): void => {
+      setVisited(name);
+    };
+
+    const getOnBlur = (name: Name) => (): void => {
+      const prevState = states.current[name];
+      const { validity } = prevState;
+
+      setTouched(name);
+      emitFieldEvent(name, prevState, { type: "blur" });
+
+      // Avoid validating an untouched / already valid field
+      if (validity.tag !== "unknown" && !isTalkative(name)) {
+        setTalkative(name, ["onBlur", "onSuccessOrBlur"]);
+        void internalValidateField(name);
+      }
+    };
+
+    const getFocusNextField = (name: Name) => () => {
+      // Field arrays are replaced by their items
+      const keys = Object.keys(config.current).reduce<Name[]>(
+        (acc, key: Name) =>
+          acc.concat(typeof arrays.current[key] !== "undefined" ? getArrayKeys(key) : [key]),
+        [],
+      );
+
+      const index = keys.findIndex((key) => key === name);
+
+      if (typeof index !== "undefined") {
+        const nextField = keys[index + 1];
+
+        if (typeof nextField !== "undefined") {
+          focusField(nextField);
+        }
+      }
+    };
+
+    const getArrayHelpers = (name: Name) => ({
+      append: (value: unknown) => {
+        updateArrayKeys(name, (keys) => [...keys, createItem(name, value)]);
+      },
+      insert: (index: number, value: unknown) => {
+        updateArrayKeys(name, (keys) => {
+          keys.splice(index, 0, createItem(name, value));
+          return keys;
+        });
+      },
+      remove: (index: number) => {
+        updateArrayKeys(name, (keys) => keys.filter((_, keyIndex) => keyIndex !== index));
+      },
+      move: (from: number, to: number) => {
+        updateArrayKeys(name, (keys) => {
+          keys.splice(to, 0, ...keys.splice(from, 1));
+          return keys;
+        });
+      },
+      swap: (indexA: number, indexB: number) => {
+        updateArrayKeys(name, (keys) => {
+          const keyA = keys[indexA];
+          const keyB = keys[indexB];
+
+          if (typeof keyA !== "undefined" && typeof keyB !== "undefined") {
+            keys[indexA] = keyB;
+            keys[indexB] = keyA;
+          }
+
+          return keys;
+        });
+      },
+    });
+
+    const getDirtyValues: Contract["getDirtyValues"] = () => {
+      const values: AnyRecord = {};
+
+      Object.keys(config.current).forEach((name: Name) => {
+        if (dirtyFields.current.has(name) && !isDisabled(name)) {
+          setPathValue(values, String(name), getSanitizedValue(name));
+        }
+      });
+
+      return values as SubmittedValues<Values>;
+    };
+
+    // initialValue changes are compared deeply, unless an equalityFn is provided
+    const isSameInitialValue = <N extends Name>(
+      name: N,
+      prevValue: Fields[N],
+      nextValue: Fields[N],
+    ): boolean => {
+      const { equalityFn, item } = config.current[name];
+
+      if (typeof arrays.current[name] === "undefined" || typeof item?.equalityFn === "undefined") {
+        return (equalityFn ?? isDeepEqual)(prevValue, nextValue);
+      }
+
+      // Field arrays are compared item by item
+      const itemEqualityFn = item.equalityFn as (value1: unknown, value2: unknown) => boolean;
+      const prevItems = prevValue as unknown as unknown[];
+      const nextItems = nextValue as unknown as unknown[];
+
+      return (
+        prevItems.length === nextItems.length &&
+        prevItems.every((value, index) => itemEqualityFn(value, nextItems[index]))
+      );
+    };
+
+    // Reads config initialValue, returns true if it changed since the previous read
+    const readInitialValue = (name: Name): boolean => {
+      const prevValue = configInitialValues.current[name];
+      const nextValue = extractInitialValue(config.current[name].initialValue);
+
+      configInitialValues.current[name] = nextValue;
+      return !isSameInitialValue(name, prevValue, nextValue);
+    };
+
+    const setInitialValues: Contract["setInitialValues"] = (values, options = {}) => {
+      Object.keys(config.current).forEach((name: Name) => {
+        if (!Object.prototype.hasOwnProperty.call(values, name)) {
+          return;
+        }
+
+        readInitialValue(name); // Explicit initial values win over previous initialValue changes
+        initialValues.current[name] = values[name] as Fields[Name];
+
+        if (options.keepDirty && dirtyFields.current.has(name)) {
+          setState(name, (prevState) => prevState); // Only needed to update dirty state
+          runCallbacks(name);
+        } else {
+          resetFieldState(name);
+        }
+      });
+    };
 
-    const validateField: Contract["validateField"] = (name) => {
-      if (!isMounted(name)) {
-        return Promise.resolve(undefined);
-      }
+    const reinitialize = (): void => {
+      const values: Partial<Fields> = {};
 
-      setTalkative(name);
-      return Promise.resolve(internalValidateField(name));
+      Object.keys(config.current).forEach((name: Name) => {
+        if (readInitialValue(name)) {
+          values[name] = configInitialValues.current[name];
+        }
+      });
+
+      if (Object.keys(values).length > 0) {
+        setInitialValues(values, { keepDirty: options.current.keepDirtyOnReinitialize });
+      }
     };
 
-    const listenFields: Contract["listenFields"] = (names, listener) => {
-      const callback = () => {
-        listener(
-          names.reduce(
-            (acc, name) => {
-              acc[name] = getFieldState(name);
-              return acc;
-            },
-            {} as {
-              [N1 in (typeof names)[number]]: FieldState<Values[N1], ErrorMessage>;
-            },
-          ),
-        );
-      };
+    let draftSaveScheduled = false;
+    let draftVersion = 0;
 
-      names.forEach((name) => callbacks.current[name].add(callback));
+    const isPersisted = (name: Name): boolean => !config.current[name].sensitive;
 
-      return () => {
-        names.forEach((name) => callbacks.current[name].delete(callback));
-      };
+    const saveDraft = (): void => {
+      const { persist } = options.current;
+
+      if (typeof persist !== "undefined") {
+        const values: AnyRecord = {};
+
+        Object.keys(config.current).forEach((name: Name) => {
+          if (isPersisted(name)) {
+            values[String(name)] = states.current[name].exposed.value;
+          }
+        });
+
+        writeDraft(persist, values);
+      }
     };
 
-    const getOnChange =
-      <N extends Name>(name: N) =>
-      (value: Values[N]): void => {
-        const debounceInterval = getDebounceInterval(name);
+    // Coalesces synchronous updates (batches, field arrays changes…)
+    const scheduleDraftSave = (): void => {
+      if (typeof options.current.persist !== "undefined" && !draftSaveScheduled) {
+        draftSaveScheduled = true;
+        const version = draftVersion;
+
+        void Promise.resolve().then(() => {
+          // The draft has been cleared in the meantime
+          if (version === draftVersion) {
+            draftSaveScheduled = false;
+            saveDraft();
+          }
+        });
+      }
+    };
+
+    const restoreDraft = (values: Partial<Fields>): void => {
+      Object.keys(config.current).forEach((name: Name) => {
+        // Fields edited while an async storage was read are kept as is
+        if (
+          !Object.prototype.hasOwnProperty.call(values, name) ||
+          !isPersisted(name) ||
+          dirtyFields.current.has(name)
+        ) {
+          return;
+        }
+
+        const value = values[name] as Fields[Name];
+
+        if (typeof arrays.current[name] !== "undefined") {
+          setArrayItems(name, value as unknown as unknown[]);
+        }
 
         setState(name, (prevState) => ({
           ...prevState,
           value,
         }));
 
-        setTalkative(name, ["onChange"]);
-        clearDebounceTimeout(name);
+        runCallbacks(name);
+      });
+    };
 
-        if (formStatus.current === "untouched" || formStatus.current === "submitted") {
-          formStatus.current = "editing";
-          forceUpdate();
-        }
+    const clearDraft = (result: unknown): void => {
+      const { persist } = options.current;
 
-        if (debounceInterval === 0) {
-          void internalValidateField(name);
-          return;
-        }
+      if (typeof persist !== "undefined" && !isSubmissionFailure(result)) {
+        // Cancels the pending save (ex: a resetForm call in onSuccess)
+        draftVersion++;
+        draftSaveScheduled = false;
+        removeDraft(persist);
+      }
+    };
 
-        setValidating(name);
-        runCallbacks(name);
+    let pendingFocus: Name | undefined;
 
-        timeouts.current[name] = setTimeout(() => {
-          if (isMounted(name)) {
-            void internalValidateField(name);
-          } else {
-            clearDebounceTimeout(name);
-          }
-        }, debounceInterval) as unknown as number;
-      };
+    const focusPendingField = (name: Name): void => {
+      if (pendingFocus === name) {
+        pendingFocus = undefined;
+        focusField(name);
+      }
+    };
 
-    const getOnBlur = (name: Name) => (): void => {
-      const { validity } = states.current[name];
+    // Field arrays items belong to their array step
+    const getStepIndex = (name: Name): number => {
+      const { steps = [] } = options.current;
+      const item = items.current[name];
+      const fieldName = typeof item !== "undefined" ? item.arrayName : name;
 
-      // Avoid validating an untouched / already valid field
-      if (validity.tag !== "unknown" && !isTalkative(name)) {
-        setTalkative(name, ["onBlur", "onSuccessOrBlur"]);
-        void internalValidateField(name);
+      return steps.findIndex((step) => step.indexOf(fieldName) !== -1);
+    };
+
+    const goToStep: Contract["goToStep"] = (index) => {
+      const { steps = [] } = options.current;
+      const step = Math.max(0, Math.min(index, steps.length - 1));
+
+      if (step !== currentStep.current) {
+        currentStep.current = step;
+        forceUpdate();
       }
     };
 
-    const getFocusNextField = (name: Name) => () => {
-      const keys: Name[] = Object.keys(config.current);
-      const index = keys.findIndex((key) => key === name);
+    const previousStep: Contract["previousStep"] = () => {
+      goToStep(currentStep.current - 1);
+    };
 
-      if (typeof index !== "undefined") {
-        const nextField = keys[index + 1];
+    // Validates the current step mounted fields before moving to the next one
+    const nextStep: Contract["nextStep"] = () => {
+      const { steps = [] } = options.current;
+      const index = currentStep.current;
+      const keys: Name[] = [];
 
-        if (typeof nextField !== "undefined") {
-          focusField(nextField);
+      (steps[index] ?? []).forEach((name) => {
+        if (isMounted(name) && !isDisabled(name)) {
+          keys.push(name, ...getArrayKeys(name).filter((key) => isMounted(key)));
         }
-      }
+      });
+
+      const results = keys.map((key) => {
+        setTalkative(key);
+        return Promise.resolve(internalValidateField(key));
+      });
+
+      return Promise.all(results).then((results) => {
+        const valid = results.every((result) => typeof result === "undefined");
+
+        stepStatuses.current[index] = valid ? "valid" : "invalid";
+
+        if (!valid) {
+          focusFirstError(keys, results);
+        } else if (currentStep.current === index) {
+          goToStep(index + 1);
+        }
+
+        if (mounted.current) {
+          forceUpdate(); // Rerender to update stepStatuses
+        }
+
+        return valid;
+      });
     };
 
     const resetForm: Contract["resetForm"] = (options = {}) => {
+      lastFormValidationId++; // Discard pending form validation
+      abortSignal(FORM_KEY);
+      formErrors.current = { fieldErrors: {}, formError: undefined };
       Object.keys(config.current).forEach((name) => resetField(name, options));
+      stepStatuses.current = [];
 
       if (!options.feedbackOnly) {
         formStatus.current = "untouched";
+        currentStep.current = 0;
       }
 
       forceUpdate();
     };
 
     const isSyncSubmission = (
-      results: ValidatorResult<ErrorMessage>[],
+      results: ErrorResult<ErrorMessage>[],
     ): results is (ErrorMessage | undefined)[] => results.every((result) => !isPromise(result));
 
-    const focusFirstError = (names: Name[], results: (ErrorMessage | undefined)[]) => {
+    const focusFirstError = (names: Name[], results: (ErrorMessage | void)[]) => {
       const index = results.findIndex((result) => typeof result !== "undefined");
       const name = names[index];
 
-      if (typeof name !== "undefined") {
+      if (typeof name === "undefined") {
+        return;
+      }
+
+      const stepIndex = getStepIndex(name);
+
+      // The field will be focused once its step is mounted
+      if (!isMounted(name) && stepIndex !== -1) {
+        pendingFocus = name;
+        goToStep(stepIndex);
+      } else {
         focusField(name);
       }
     };
 
-    const handleEffect = (effect: Promise<unknown> | void, wasEditing: boolean) => {
+    const settleSubmission = (result: unknown, shouldFocusOnError: boolean): void => {
+      controllers.current[SUBMISSION_KEY] = undefined;
+
+      if (!isSubmissionFailure<Values, ErrorMessage, Fields>(result)) {
+        formStatus.current = "submitted";
+        emitSubmitEnd();
+        return;
+      }
+
+      const { fieldErrors, formError } = result;
+      const names: Name[] = Object.keys(config.current);
+
+      formStatus.current = "failed";
+      formErrors.current = { ...formErrors.current, formError };
+      setFieldErrors(fieldErrors);
+      emitSubmitEnd();
+
+      if (shouldFocusOnError) {
+        focusFirstError(
+          names,
+          names.map((name) => fieldErrors[name]),
+        );
+      }
+    };
+
+    const handleEffect = (
+      effect: SubmissionFailure<Values, ErrorMessage, Fields> | Promise<unknown> | void,
+      wasEditing: boolean,
+      signal: AbortSignal,
+      shouldFocusOnError: boolean,
+    ): Promise<unknown> | void => {
       if (isPromise(effect)) {
         forceUpdate();
 
-        effect.finally(() => {
-          formStatus.current = "submitted";
+        const settle = (result: unknown) => {
+          if (signal.aborted) {
+            return; // The submission has been cancelled
+          }
+
+          settleSubmission(result, shouldFocusOnError);
 
           if (mounted.current) {
             forceUpdate();
           }
+        };
+
+        return effect.then(settle, (error) => {
+          settle(error);
+
+          if (!isSubmissionFailure(error)) {
+            throw error;
+          }
         });
       } else {
-        formStatus.current = "submitted";
+        settleSubmission(effect, shouldFocusOnError);
 
-        if (wasEditing) {
-          forceUpdate(); // Only needed to rerender and switch from editing to submitted
+        if (wasEditing || formStatus.current === "failed") {
+          forceUpdate(); // Only needed to rerender and switch from editing to submitted / failed
         }
       }
     };
@@ -551,81 +2393,231 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
       }
 
       const wasEditing = formStatus.current === "editing";
+      const signal = createSignal(SUBMISSION_KEY);
       formStatus.current = "submitting";
 
-      const names: Name[] = Object.keys(mounteds.current).filter((name) => mounteds.current[name]);
-      const values: Partial<Values> = {};
+      if (hasEventListeners()) {
+        emitEvent({ type: "submitStart", timestamp: Date.now() });
+      }
+
+      // Wizard steps fields are submitted, even if unmounted
+      const isSubmitted = (name: Name) => isMounted(name) || getStepIndex(name) !== -1;
+
+      const names: Name[] = Object.keys(config.current).filter(
+        (name) => isSubmitted(name) && !isDisabled(name),
+      );
+      const keys: Name[] = []; // Mounted fields and field arrays items, in focus order
+      const values: AnyRecord = {};
+      const dirtyValues: AnyRecord = {};
       const errors: Partial<Record<Name, ErrorMessage>> = {};
-      const results: ValidatorResult<ErrorMessage>[] = [];
+      const itemErrors: FieldArrayErrors<Values, ErrorMessage, Fields> = {};
+      const results: ErrorResult<ErrorMessage>[] = [];
 
       // autofocusing first error is the default behaviour
       const shouldFocusOnError = !options.avoidFocusOnError;
 
-      names.forEach((name: Name, index) => {
-        setTalkative(name);
-        values[name] = getFieldState(name, { sanitize: true }).value;
-        results[index] = internalValidateField(name);
-      });
+      names.forEach((name) => {
+        keys.push(name);
 
-      if (isSyncSubmission(results)) {
-        const success = results.every((result) => typeof result === "undefined");
+        const value = getSanitizedValue(name);
+        setPathValue(values, String(name), value);
 
-        if (success) {
-          return handleEffect(onSuccess(values), wasEditing);
+        if (dirtyFields.current.has(name)) {
+          setPathValue(dirtyValues, String(name), value);
         }
 
-        if (shouldFocusOnError) {
-          focusFirstError(names, results);
+        if (typeof arrays.current[name] !== "undefined") {
+          const arrayKeys = getArrayKeys(name);
+
+          itemErrors[name] = arrayKeys.map(() => undefined);
+          keys.push(...arrayKeys.filter((key) => isSubmitted(key)));
+        }
+      });
+
+      keys.forEach((key, index) => {
+        setTalkative(key);
+        results[index] = internalValidateField(key);
+      });
+
+      const validationId = ++lastFormValidationId;
+      const formValidation = runFormValidation();
+
+      const handleResults = (
+        fieldResults: (ErrorMessage | undefined)[],
+        formResult: FormValidatorResult<Values, ErrorMessage, Fields>,
+      ) => {
+        if (validationId === lastFormValidationId) {
+          setFormErrors(formResult);
         }
 
-        names.forEach((name, index) => {
-          errors[name] = results[index];
+        const { fieldErrors, formError } = formErrors.current;
+
+        const results = fieldResults.map((result, index) => {
+          const key = keys[index];
+          return typeof result === "undefined" && typeof key !== "undefined"
+            ? fieldErrors[key]
+            : result;
         });
 
-        return handleEffect(onFailure(errors), wasEditing);
-      }
+        const success =
+          results.every((result) => typeof result === "undefined") &&
+          typeof formError === "undefined";
 
-      forceUpdate(); // Async validation flow: we need to give visual feedback
+        if (success) {
+          const warnings: Partial<Record<Name, ErrorMessage>> = {};
+          let effect: ReturnType<typeof onSuccess>;
+
+          names.forEach((name) => {
+            const { warning } = states.current[name].exposed;
+
+            if (typeof warning !== "undefined") {
+              warnings[name] = warning;
+            }
+          });
+
+          try {
+            effect = onSuccess(values as SubmittedValues<Values>, {
+              dirtyValues: dirtyValues as SubmittedValues<Values>,
+              warnings,
+              signal,
+              fail,
+            });
+          } catch (error) {
+            if (!isSubmissionFailure<Values, ErrorMessage, Fields>(error)) {
+              throw error;
+            }
+
+            effect = error; // Failures can be thrown too
+          }
+
+          if (isPromise(effect)) {
+            effect = effect.then((result) => {
+              if (!signal.aborted) {
+                clearDraft(result);
+              }
+
+              return result;
+            });
+          } else {
+            clearDraft(effect);
+          }
+
+          return handleEffect(effect, wasEditing, signal, shouldFocusOnError);
+        }
+
+        if (shouldFocusOnError) {
+          focusFirstError(keys, results);
+        }
 
-      Promise.all(results.map((result) => Promise.resolve(result)))
-        .then((uncasted) => {
-          const results = uncasted as (ErrorMessage | undefined)[];
-          const success = results.every((result) => typeof result === "undefined");
+        keys.forEach((key, index) => {
+          const item = items.current[key];
 
-          if (success) {
-            return handleEffect(onSuccess(values), wasEditing);
+          if (typeof item === "undefined") {
+            errors[key] = results[index];
+            return;
           }
 
-          if (shouldFocusOnError) {
-            focusFirstError(names, results);
+          const arrayErrors = itemErrors[item.arrayName];
+
+          if (typeof arrayErrors !== "undefined") {
+            arrayErrors[getArrayKeys(item.arrayName).indexOf(key)] = results[index];
           }
+        });
 
-          names.forEach((name, index) => {
-            errors[name] = results[index];
-          });
+        return handleEffect(
+          onFailure(errors, { itemErrors, formError, signal }),
+          wasEditing,
+          signal,
+          shouldFocusOnError,
+        );
+      };
+
+      if (isSyncSubmission(results) && !isPromise(formValidation)) {
+        void handleResults(results, formValidation);
+        return;
+      }
 
-          return handleEffect(onFailure(errors), wasEditing);
+      forceUpdate(); // Async validation flow: we need to give visual feedback
+
+      Promise.all([
+        Promise.all(results.map((result) => Promise.resolve(result))),
+        Promise.resolve(formValidation),
+      ])
+        .then(([results, formResult]) => {
+          if (!signal.aborted) {
+            return handleResults(results as (ErrorMessage | undefined)[], formResult);
+          }
         })
         .finally(() => {
-          formStatus.current = "submitted";
-          mounted.current && forceUpdate();
+          // Settled by handleEffect, unless a callback threw synchronously
+          if (!signal.aborted && formStatus.current === "submitting") {
+            formStatus.current = "submitted";
+            emitSubmitEnd();
+            mounted.current && forceUpdate();
+          }
         });
     };
 
+    const cancelSubmission: Contract["cancelSubmission"] = () => {
+      if (formStatus.current !== "submitting") {
+        return;
+      }
+
+      abortSignal(SUBMISSION_KEY);
+      formStatus.current = "editing";
+      emitSubmitEnd();
+      forceUpdate();
+    };
+
     return {
       getFieldState,
       setFieldValue,
+      setValues,
       setFieldError,
+      setFieldErrors,
+      clearErrors,
       focusField,
       resetField,
       validateField,
       listenFields,
+      subscribeEvents,
+      getStatesVersion,
+      subscribeSelector,
+      getDirtyValues,
+      batch,
+      undo,
+      redo,
+      clearHistory,
+      canUndo,
+      canRedo,
+      setInitialValues,
+      reinitialize,
+      restoreDraft,
+      updateDisabledFields,
+      reformatErrors,
 
       resetForm,
       submitForm,
-
-      setState,
+      cancelSubmission,
+
+      goToStep,
+      nextStep,
+      previousStep,
+      focusPendingField,
+
+      registerField,
+      discardValidation,
+      addDependency,
+      setArrayItems,
+      getArrayKeys,
+      getArrayHelpers,
+      isDisposedItem,
+      disposeItem,
       getOnChange,
+      getOnChangeText,
+      restoreCaret,
+      formatValue,
+      getOnFocus,
       getOnBlur,
       getFocusNextField,
     };
@@ -634,28 +2626,74 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
   // Lazy initialization
   if (!states.current) {
     states.current = {} as StateMap;
+    initialValues.current = {} as Fields;
+    configInitialValues.current = {} as Fields;
+    dirtyFields.current = new Set();
+    disabledFields.current = new Set();
+    touchedFields.current = new Set();
 
     callbacks.current = {} as CallbackMap;
     mounteds.current = {} as MountedMap;
     refs.current = {} as RefMap;
     timeouts.current = {} as TimeoutMap;
 
+    arrays.current = {};
+    items.current = {};
+
+    if (process.env.NODE_ENV === "development") {
+      const names = Object.keys(config.current);
+
+      names.forEach((name) => {
+        const nested = names.find((other) => other.startsWith(`${name}.`));
+
+        if (typeof nested !== "undefined") {
+          console.error(
+            `"${name}" is configured as a whole and path by path ("${nested}"): a field name cannot prefix another`,
+          );
+        }
+      });
+    }
+
     for (const name in config.current) {
       if (Object.prototype.hasOwnProperty.call(config.current, name)) {
-        api.setState(name, {
-          value: extractInitialValue(config.current[name].initialValue),
-          talkative: false,
-          validity: { tag: "unknown" },
+        const { initialValue, item } = config.current[name];
+        const value = extractInitialValue(initialValue);
+
+        initialValues.current[name] = value;
+        configInitialValues.current[name] = value;
+        api.registerField(name, value);
+
+        if (typeof item !== "undefined") {
+          api.setArrayItems(name, value as unknown as unknown[]);
+        }
+      }
+    }
+
+    // Restore the persisted draft (before first render with a synchronous storage)
+    if (typeof options.current.persist !== "undefined") {
+      const draft = readDraft(options.current.persist);
+
+      if (isPromise<Partial<Fields> | void>(draft)) {
+        void draft.then((values) => {
+          if (typeof values !== "undefined") {
+            api.restoreDraft(values);
+          }
         });
+      } else if (typeof draft !== "undefined") {
+        api.restoreDraft(draft);
+      }
+    }
 
-        callbacks.current[name] = new Set();
-        mounteds.current[name] = false;
-        refs.current[name] = { current: null };
-        timeouts.current[name] = undefined;
+    api.updateDisabledFields();
+
+    for (const name in config.current) {
+      if (Object.prototype.hasOwnProperty.call(config.current, name)) {
+        const { dependsOn = [] } = config.current[name];
+        dependsOn.forEach((dependency) => api.addDependency(name, dependency));
       }
     }
 
-    const Field: Contract["Field"] = ({ name, children }) => {
+    const useFieldProps = <N extends Name>(name: N): FieldProps<Fields[N], ErrorMessage> => {
       const { subscribe, getSnapshot } = useMemo(
         () => ({
           getSnapshot: () => states.current[name],
@@ -677,6 +2715,7 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
 
         if (isFirstMounting) {
           mounteds.current[name] = true;
+          api.focusPendingField(name);
         } else {
           if (process.env.NODE_ENV === "development") {
             console.error(
@@ -688,72 +2727,245 @@ export const useForm = <Values extends AnyRecord, ErrorMessage = string>(
         return () => {
           if (isFirstMounting) {
             mounteds.current[name] = false;
+            api.discardValidation(name);
+
+            if (api.isDisposedItem(name)) {
+              api.disposeItem(name);
+            }
           }
         };
       }, [name]);
 
-      return children({
-        ...api.getFieldState(name),
+      useIsoLayoutEffect(() => {
+        api.restoreCaret(name);
+      });
+
+      const state = api.getFieldState(name);
+
+      return {
+        ...state,
         ref: refs.current[name],
+        displayValue: api.formatValue(name, state.value),
         focusNextField: useMemo(() => api.getFocusNextField(name), [name]),
+        onFocus: useMemo(() => api.getOnFocus(name), [name]),
         onBlur: useMemo(() => api.getOnBlur(name), [name]),
         onChange: useMemo(() => api.getOnChange(name), [name]),
-      });
+        onChangeText: useMemo(() => api.getOnChangeText(name), [name]),
+      };
     };
 
+    const Field: Contract["Field"] = ({ name, children }) => children(useFieldProps(name));
+
     Field.displayName = "Field";
     field.current = Field;
+    useField.current = useFieldProps;
+
+    type ItemField = FieldArray<Fields[Name], ErrorMessage>["items"][number]["Field"];
+    const itemFields = new Map<Name, ItemField>();
+
+    const getItemField = (key: Name): ItemField => {
+      const cached = itemFields.get(key);
+
+      if (typeof cached !== "undefined") {
+        return cached;
+      }
 
-    const FieldsListener: Contract["FieldsListener"] = ({ names, children }) => {
+      const ItemField: ItemField = ({ children }) => children(useFieldProps(key));
+      ItemField.displayName = "ArrayField.Item";
+      itemFields.set(key, ItemField);
+
+      return ItemField;
+    };
+
+    const useFieldArrayImpl = (name: Name): FieldArray<Fields[Name], ErrorMessage> => {
       const { subscribe, getSnapshot } = useMemo(
         () => ({
-          getSnapshot: () => JSON.stringify(names.map((name) => states.current[name])),
+          getSnapshot: () => api.getArrayKeys(name),
           subscribe: (callback: () => void): (() => void) => {
+            callbacks.current[name].add(callback);
+
+            return () => {
+              callbacks.current[name].delete(callback);
+            };
+          },
+        }),
+        [name],
+      );
+
+      const keys = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+      useEffect(() => {
+        if (process.env.NODE_ENV === "development" && !config.current[name].item) {
+          console.error(
+            `"${String(name)}" field has no item config and cannot be used as an array`,
+          );
+        }
+
+        mounteds.current[name] = true;
+
+        return () => {
+          mounteds.current[name] = false;
+        };
+      }, [name]);
+
+      useEffect(() => {
+        return () => {
+          const currentKeys = api.getArrayKeys(name);
+
+          keys
+            .filter((key) => currentKeys.indexOf(key) === -1)
+            .forEach((key) => itemFields.delete(key));
+        };
+      }, [name, keys]);
+
+      const helpers = useMemo(() => api.getArrayHelpers(name), [name]);
+
+      return useMemo(
+        () => ({
+          ...helpers,
+          items: keys.map((key, index) => ({
+            key: String(key),
+            index,
+            Field: getItemField(key),
+          })),
+        }),
+        [helpers, keys],
+      );
+    };
+
+    useFieldArray.current = useFieldArrayImpl as Contract["useFieldArray"];
+
+    const ArrayField: Contract["ArrayField"] = ({ name, children }) =>
+      children(useFieldArray.current(name));
+
+    ArrayField.displayName = "ArrayField";
+    arrayField.current = ArrayField;
+
+    type FieldStates<N extends Name> = { [N1 in N]: FieldState<Fields[N1], ErrorMessage> };
+
+    // Field states are immutable: comparing them by reference is enough
+    const areStatesEqual = <N extends Name>(a: FieldStates<N>, b: FieldStates<N>): boolean =>
+      (Object.keys(a) as N[]).every((name) => a[name] === b[name]);
+
+    const FieldsListener = <N extends Name, Selection>({
+      names,
+      selector,
+      equalityFn = Object.is,
+      children,
+    }: {
+      names: N[];
+      selector?: (states: FieldStates<N>) => Selection;
+      equalityFn?: (a: Selection, b: Selection) => boolean;
+      children: (selection: Selection) => ReactElement | null;
+    }): ReactElement | null => {
+      const subscribe = useMemo(
+        () =>
+          (callback: () => void): (() => void) => {
             names.forEach((name) => callbacks.current[name].add(callback));
 
             return () => {
               names.forEach((name) => callbacks.current[name].delete(callback));
             };
           },
-        }),
         // eslint-disable-next-line react-hooks/exhaustive-deps
         [JSON.stringify(names)],
       );
 
-      useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
-
-      return children(
-        names.reduce(
-          (acc, name) => {
-            acc[name] = api.getFieldState(name);
-            return acc;
-          },
-          {} as {
-            [N1 in (typeof names)[number]]: FieldState<Values[N1], ErrorMessage>;
-          },
-        ),
+      const getStates = (): FieldStates<N> =>
+        names.reduce((acc, name) => {
+          acc[name] = api.getFieldState(name);
+          return acc;
+        }, {} as FieldStates<N>);
+
+      const selection = useSyncExternalStoreWithSelector(
+        subscribe,
+        api.getStatesVersion,
+        api.getStatesVersion,
+        (): Selection | FieldStates<N> => (selector ? selector(getStates()) : getStates()),
+        (a, b) =>
+          selector
+            ? equalityFn(a as Selection, b as Selection)
+            : areStatesEqual(a as FieldStates<N>, b as FieldStates<N>),
       );
+
+      return children(selection as Selection);
     };
 
     FieldsListener.displayName = "FieldsListener";
-    fieldsListener.current = FieldsListener;
+    fieldsListener.current = FieldsListener as Contract["FieldsListener"];
+
+    const useFormSelectorImpl: Contract["useFormSelector"] = (selector, equalityFn = Object.is) =>
+      useSyncExternalStoreWithSelector(
+        api.subscribeSelector,
+        api.getStatesVersion,
+        api.getStatesVersion,
+        () => selector({ getFieldState: api.getFieldState }),
+        equalityFn,
+      );
+
+    useFormSelector.current = useFormSelectorImpl;
   }
 
+  useIsoLayoutEffect(() => {
+    if (formOptions.reinitialize) {
+      api.reinitialize();
+    }
+
+    // enabled predicates could also depend on external values
+    api.updateDisabledFields();
+    api.reformatErrors();
+  });
+
+  const { formError } = formErrors.current;
+  const { formatError } = formOptions;
+
   return {
     formStatus: formStatus.current,
+    formError,
+    formattedFormError:
+      typeof formError !== "undefined" && typeof formatError !== "undefined"
+        ? formatError(formError)
+        : undefined,
+    isDirty: dirtyFields.current.size > 0,
+    touchedFields: Object.keys(config.current).filter((name) => touchedFields.current.has(name)),
+    canUndo: api.canUndo(),
+    canRedo: api.canRedo(),
+    currentStep: currentStep.current,
+    stepStatuses: (formOptions.steps ?? []).map(
+      (_, index) => stepStatuses.current[index] ?? "untouched",
+    ),
 
     Field: field.current,
     FieldsListener: fieldsListener.current,
+    ArrayField: arrayField.current,
+    useField: useField.current,
+    useFieldArray: useFieldArray.current,
+    useFormSelector: useFormSelector.current,
 
     getFieldState: api.getFieldState,
     setFieldValue: api.setFieldValue,
+    setValues: api.setValues,
     setFieldError: api.setFieldError,
+    setFieldErrors: api.setFieldErrors,
+    clearErrors: api.clearErrors,
     focusField: api.focusField,
     resetField: api.resetField,
     validateField: api.validateField,
     listenFields: api.listenFields,
+    subscribeEvents: api.subscribeEvents,
+    getDirtyValues: api.getDirtyValues,
+    batch: api.batch,
+    undo: api.undo,
+    redo: api.redo,
+    clearHistory: api.clearHistory,
+    setInitialValues: api.setInitialValues,
 
     resetForm: api.resetForm,
     submitForm: api.submitForm,
+    cancelSubmission: api.cancelSubmission,
+
+    goToStep: api.goToStep,
+    nextStep: api.nextStep,
+    previousStep: api.previousStep,
   };
 };
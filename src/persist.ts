@@ -0,0 +1,105 @@
+import { AnyRecord, isPromise } from "./utils";
+
+// Compatible with localStorage, sessionStorage and React Native AsyncStorage
+export type DraftStorage = {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+};
+
+export type PersistOptions<Values extends AnyRecord> = {
+  key: string;
+  storage: DraftStorage;
+  // Drafts stored with another version are discarded, unless migrated
+  version?: number;
+  migrate?: (values: AnyRecord, version: number) => Partial<Values> | void;
+};
+
+type Draft = { version: number; values: AnyRecord };
+
+const logStorageError = (error: unknown) => {
+  if (process.env.NODE_ENV === "development") {
+    console.error("Something went wrong while accessing the draft storage.\n", error);
+  }
+};
+
+const parseDraft = <Values extends AnyRecord>(
+  item: string | null,
+  { version = 0, migrate }: PersistOptions<Values>,
+): Partial<Values> | void => {
+  if (item === null) {
+    return;
+  }
+
+  try {
+    const draft = JSON.parse(item) as Draft;
+
+    if (draft.version === version) {
+      return draft.values as Partial<Values>;
+    }
+    if (typeof migrate !== "undefined") {
+      return migrate(draft.values, draft.version);
+    }
+  } catch (error) {
+    logStorageError(error);
+  }
+};
+
+export const readDraft = <Values extends AnyRecord>(
+  options: PersistOptions<Values>,
+): Partial<Values> | void | Promise<Partial<Values> | void> => {
+  try {
+    const item = options.storage.getItem(options.key);
+
+    return isPromise<string | null>(item)
+      ? item.then((item) => parseDraft(item, options)).catch(logStorageError)
+      : parseDraft(item, options);
+  } catch (error) {
+    logStorageError(error);
+  }
+};
+
+export const writeDraft = <Values extends AnyRecord>(
+  { key, storage, version = 0 }: PersistOptions<Values>,
+  values: AnyRecord,
+): void => {
+  try {
+    const draft: Draft = { version, values };
+    const result = storage.setItem(key, JSON.stringify(draft));
+
+    if (isPromise(result)) {
+      result.catch(logStorageError);
+    }
+  } catch (error) {
+    logStorageError(error);
+  }
+};
+
+export const removeDraft = <Values extends AnyRecord>({
+  key,
+  storage,
+}: PersistOptions<Values>): void => {
+  try {
+    const result = storage.removeItem(key);
+
+    if (isPromise(result)) {
+      result.catch(logStorageError);
+    }
+  } catch (error) {
+    logStorageError(error);
+  }
+};
+
+export const createMemoryStorage = (): DraftStorage => {
+  const items = new Map<string, string>();
+
+  return {
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: (key) => {
+      items.delete(key);
+    },
+  };
+};
@@ -0,0 +1,215 @@
+import type {
+  FlatValues,
+  FormConfig,
+  FormValidatorResult,
+  Validator,
+  ValidatorResult,
+} from "./index";
+import { AnyRecord, NoInfer, isDeepEqual, isPromise, setPathValue } from "./utils";
+import { ValidatorErrors, ValidatorWarning, isValidatorWarning } from "./validatorResults";
+
+// Copied from https://github.com/standard-schema/standard-schema (as recommended by the spec)
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly "~standard": StandardSchemaV1.Props<Input, Output>;
+}
+
+// eslint-disable-next-line @typescript-eslint/no-namespace
+export declare namespace StandardSchemaV1 {
+  export interface Props<Input = unknown, Output = Input> {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (value: unknown) => Result<Output> | Promise<Result<Output>>;
+    readonly types?: Types<Input, Output> | undefined;
+  }
+
+  export type Result<Output> = SuccessResult<Output> | FailureResult;
+
+  export interface SuccessResult<Output> {
+    readonly value: Output;
+    readonly issues?: undefined;
+  }
+
+  export interface FailureResult {
+    readonly issues: ReadonlyArray<Issue>;
+  }
+
+  export interface Issue {
+    readonly message: string;
+    readonly path?: ReadonlyArray<PropertyKey | PathSegment> | undefined;
+  }
+
+  export interface PathSegment {
+    readonly key: PropertyKey;
+  }
+
+  export interface Types<Input = unknown, Output = Input> {
+    readonly input: Input;
+    readonly output: Output;
+  }
+}
+
+export type StandardSchemaOptions<ErrorMessage = string> = {
+  // Defaults to the issue message
+  getErrorMessage?: (issue: StandardSchemaV1.Issue) => ErrorMessage;
+};
+
+const getIssuePath = ({ path = [] }: StandardSchemaV1.Issue): string =>
+  path.map((segment) => String(typeof segment === "object" ? segment.key : segment)).join(".");
+
+const isFieldIssue = (issue: StandardSchemaV1.Issue, name: string): boolean => {
+  const path = getIssuePath(issue);
+  return path === name || path.startsWith(`${name}.`);
+};
+
+const getNestedValues = (names: string[], getValue: (name: string) => unknown): AnyRecord => {
+  const values: AnyRecord = {};
+
+  names.forEach((name) => {
+    setPathValue(values, name, getValue(name));
+  });
+
+  return values;
+};
+
+const getFirstIssue = (
+  result: StandardSchemaV1.Result<unknown>,
+  predicate: (issue: StandardSchemaV1.Issue) => boolean = () => true,
+): StandardSchemaV1.Issue | undefined =>
+  typeof result.issues !== "undefined" ? result.issues.find(predicate) : undefined;
+
+const mapResult = <Output, ErrorMessage>(
+  result: StandardSchemaV1.Result<Output> | Promise<StandardSchemaV1.Result<Output>>,
+  getError: (result: StandardSchemaV1.Result<Output>) => ErrorMessage | void,
+): ValidatorResult<ErrorMessage> => (isPromise(result) ? result.then(getError) : getError(result));
+
+// Creates a field validator from a Standard Schema compliant schema (zod, valibot, arktype…)
+// The first issue is used as error
+export const fromStandardSchema =
+  <Value, ErrorMessage = string>(
+    schema: StandardSchemaV1<Value>,
+    options: StandardSchemaOptions<ErrorMessage> = {},
+  ): Validator<Value, ErrorMessage> =>
+  (value) => {
+    const { getErrorMessage = (issue) => issue.message as unknown as ErrorMessage } = options;
+
+    return mapResult<Value, ErrorMessage>(schema["~standard"].validate(value), (result) => {
+      const issue = getFirstIssue(result);
+      return typeof issue !== "undefined" ? getErrorMessage(issue) : undefined;
+    });
+  };
+
+// Adds a validate function to each field config, using a schema describing the whole (nested) values
+// Each field gets the first issue whose path matches its name. Fields own validate functions run first
+export const withStandardSchema = <Values extends AnyRecord, ErrorMessage = string>(
+  schema: StandardSchemaV1,
+  fields: FormConfig<Values, ErrorMessage>,
+  options: StandardSchemaOptions<ErrorMessage> = {},
+): FormConfig<Values, ErrorMessage> => {
+  type Result =
+    | ErrorMessage
+    | ValidatorWarning<ErrorMessage>
+    | ValidatorErrors<ErrorMessage>
+    | void;
+
+  type Validate = (
+    value: unknown,
+    helpers: {
+      getFieldState: (name: string, options?: { sanitize?: boolean }) => { value: unknown };
+    },
+  ) => ValidatorResult<ErrorMessage>;
+  // Fields configs by name (nested values can be configured as a whole or path by path)
+  type Config = Record<string, { validate?: Validate }>;
+
+  const { getErrorMessage = (issue) => issue.message as unknown as ErrorMessage } = options;
+  const configs = fields as unknown as Config;
+  const names = Object.keys(configs);
+
+  let lastRun:
+    | {
+        values: AnyRecord;
+        result: StandardSchemaV1.Result<unknown> | Promise<StandardSchemaV1.Result<unknown>>;
+      }
+    | undefined;
+
+  const config = names.reduce((acc, name) => {
+    const { validate: ownValidate } = configs[name] ?? {};
+
+    const validateSchema: Validate = (_value, { getFieldState }) => {
+      const values = getNestedValues(
+        names,
+        (name) => getFieldState(name, { sanitize: true }).value,
+      );
+
+      // Fields validated at once (ex: on submit) share the same schema run
+      if (typeof lastRun === "undefined" || !isDeepEqual(lastRun.values, values)) {
+        lastRun = { values, result: schema["~standard"].validate(values) };
+      }
+
+      return mapResult<unknown, ErrorMessage>(lastRun.result, (result) => {
+        const issue = getFirstIssue(result, (issue) => isFieldIssue(issue, name));
+        return typeof issue !== "undefined" ? getErrorMessage(issue) : undefined;
+      });
+    };
+
+    // Warnings don't skip the schema check, whose errors take precedence
+    const keepWarning = (warning: Result, schemaResult: Result): Result =>
+      typeof schemaResult === "undefined" ? warning : schemaResult;
+
+    const validate: Validate =
+      typeof ownValidate === "undefined"
+        ? validateSchema
+        : (value, helpers) => {
+            const next = (result: Result): ValidatorResult<ErrorMessage> => {
+              if (typeof result !== "undefined" && !isValidatorWarning(result)) {
+                return result;
+              }
+
+              const schemaResult = validateSchema(value, helpers);
+
+              if (typeof result === "undefined") {
+                return schemaResult;
+              }
+
+              return isPromise<Result>(schemaResult)
+                ? schemaResult.then((schemaResult) => keepWarning(result, schemaResult))
+                : keepWarning(result, schemaResult);
+            };
+
+            const result = ownValidate(value, helpers);
+            return isPromise<Result>(result) ? result.then(next) : next(result);
+          };
+
+    acc[name] = { ...configs[name], validate };
+    return acc;
+  }, {} as Config);
+
+  return config as unknown as FormConfig<Values, ErrorMessage>;
+};
+
+// Creates a validateForm function, using the same schema as withStandardSchema
+// The first issue matching no field (ex: an object-level refinement) is used as form error
+export const validateFormWithStandardSchema =
+  <Values extends AnyRecord, ErrorMessage = string>(
+    schema: StandardSchemaV1,
+    options: StandardSchemaOptions<ErrorMessage> = {},
+  ) =>
+  (
+    values: FlatValues<Values>,
+  ):
+    | FormValidatorResult<Values, NoInfer<ErrorMessage>>
+    | Promise<FormValidatorResult<Values, NoInfer<ErrorMessage>>> => {
+    const { getErrorMessage = (issue) => issue.message as unknown as ErrorMessage } = options;
+    const names = Object.keys(values);
+    const nestedValues = getNestedValues(names, (name) => (values as AnyRecord)[name]);
+
+    const getFormError = (result: StandardSchemaV1.Result<unknown>) => {
+      const issue = getFirstIssue(
+        result,
+        (issue) => !names.some((name) => isFieldIssue(issue, name)),
+      );
+      return typeof issue !== "undefined" ? { formError: getErrorMessage(issue) } : undefined;
+    };
+
+    const result = schema["~standard"].validate(nestedValues);
+    return isPromise(result) ? result.then(getFormError) : getFormError(result);
+  };
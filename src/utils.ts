@@ -0,0 +1,86 @@
+export type AnyRecord = Record<string, unknown>;
+
+// Prevents inferring a type parameter from this position (built-in since TypeScript 5.4)
+export type NoInfer<T> = [T][T extends unknown ? 0 : never];
+
+export const isPromise = <T>(value: unknown): value is Promise<T> =>
+  !!value &&
+  (typeof value === "object" || typeof value === "function") &&
+  typeof (value as { then?: Function }).then === "function";
+
+export const isPlainObject = (value: unknown): value is AnyRecord => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+
+  const prototype = Object.getPrototypeOf(value) as unknown;
+  return prototype === Object.prototype || prototype === null;
+};
+
+// Compares plain objects, arrays and dates by value
+export const isDeepEqual = (value1: unknown, value2: unknown): boolean => {
+  if (Object.is(value1, value2)) {
+    return true;
+  }
+  if (value1 instanceof Date && value2 instanceof Date) {
+    return value1.getTime() === value2.getTime();
+  }
+  if (Array.isArray(value1) && Array.isArray(value2)) {
+    return (
+      value1.length === value2.length &&
+      value1.every((item, index) => isDeepEqual(item, value2[index]))
+    );
+  }
+  if (isPlainObject(value1) && isPlainObject(value2)) {
+    const keys = Object.keys(value1);
+
+    return (
+      keys.length === Object.keys(value2).length &&
+      keys.every(
+        (key) =>
+          Object.prototype.hasOwnProperty.call(value2, key) &&
+          isDeepEqual(value1[key], value2[key]),
+      )
+    );
+  }
+
+  return false;
+};
+
+export const setPathValue = (object: AnyRecord, path: string, value: unknown): void => {
+  const [key, ...nextKeys] = path.split(".") as [string, ...string[]];
+
+  if (nextKeys.length === 0) {
+    object[key] = value;
+    return;
+  }
+
+  const child = object[key];
+  const nested = typeof child === "object" && child !== null ? (child as AnyRecord) : {};
+
+  object[key] = nested;
+  setPathValue(nested, nextKeys.join("."), value);
+};
+
+// Letters and digits are expected to be kept by formatters, other characters are separators
+const isSignificantChar = (char: string): boolean => /[a-z0-9]/i.test(char);
+
+export const countSignificantChars = (text: string): number =>
+  text.split("").filter(isSignificantChar).length;
+
+// Returns the position following the nth significant character of a formatted text
+export const getCaretPosition = (formatted: string, significantChars: number): number => {
+  if (significantChars === 0) {
+    return 0;
+  }
+
+  let count = 0;
+
+  for (let index = 0; index < formatted.length; index++) {
+    if (isSignificantChar(formatted.charAt(index)) && ++count === significantChars) {
+      return index + 1;
+    }
+  }
+
+  return formatted.length;
+};
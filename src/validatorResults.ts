@@ -0,0 +1,45 @@
+declare const warningBrand: unique symbol;
+declare const errorsBrand: unique symbol;
+
+// Warnings are non-blocking: they don't prevent submission
+// Opaque, as only objects created by warn are recognized
+export type ValidatorWarning<ErrorMessage = string> = {
+  readonly warning: ErrorMessage;
+  readonly [warningBrand]: true;
+};
+
+// Every error collected by combineValidatorsAll (opaque too)
+export type ValidatorErrors<ErrorMessage = string> = {
+  readonly errors: ErrorMessage[];
+  readonly [errorsBrand]: true;
+};
+
+const validatorWarnings = new WeakSet<object>();
+
+export const isValidatorWarning = <ErrorMessage>(
+  value: unknown,
+): value is ValidatorWarning<ErrorMessage> =>
+  typeof value === "object" && value !== null && validatorWarnings.has(value);
+
+export const warn = <ErrorMessage = string>(
+  warning: ErrorMessage,
+): ValidatorWarning<ErrorMessage> => {
+  const result = { warning } as ValidatorWarning<ErrorMessage>;
+  validatorWarnings.add(result);
+  return result;
+};
+
+const validatorErrors = new WeakSet<object>();
+
+export const isValidatorErrors = <ErrorMessage>(
+  value: unknown,
+): value is ValidatorErrors<ErrorMessage> =>
+  typeof value === "object" && value !== null && validatorErrors.has(value);
+
+export const createValidatorErrors = <ErrorMessage>(
+  errors: ErrorMessage[],
+): ValidatorErrors<ErrorMessage> => {
+  const result = { errors } as ValidatorErrors<ErrorMessage>;
+  validatorErrors.add(result);
+  return result;
+};
@@ -0,0 +1,82 @@
+import type { Validator } from "./index";
+
+// Structured errors, to be turned into messages at render time (ex: using i18n)
+export type ValidationError =
+  | { code: "required"; params: Record<string, never> }
+  | { code: "minLength"; params: { min: number } }
+  | { code: "maxLength"; params: { max: number } }
+  | { code: "pattern"; params: { pattern: RegExp } }
+  | { code: "email"; params: Record<string, never> }
+  | { code: "min"; params: { min: number } }
+  | { code: "max"; params: { max: number } }
+  | { code: "oneOf"; params: { values: readonly unknown[] } };
+
+type Length = string | readonly unknown[];
+
+// Fails on undefined, null, empty strings and empty arrays
+export const required = <Value>(value: Value): ValidationError | void => {
+  if (
+    value == null ||
+    value === "" ||
+    (Array.isArray(value) && (value as readonly unknown[]).length === 0)
+  ) {
+    return { code: "required", params: {} };
+  }
+};
+
+export const minLength =
+  (min: number): Validator<Length, ValidationError> =>
+  (value) => {
+    if (value.length < min) {
+      return { code: "minLength", params: { min } };
+    }
+  };
+
+export const maxLength =
+  (max: number): Validator<Length, ValidationError> =>
+  (value) => {
+    if (value.length > max) {
+      return { code: "maxLength", params: { max } };
+    }
+  };
+
+// Empty values are not tested: combine it with required if needed
+export const pattern =
+  (pattern: RegExp): Validator<string, ValidationError> =>
+  (value) => {
+    pattern.lastIndex = 0; // Global and sticky patterns keep their position between calls
+
+    if (value !== "" && !pattern.test(value)) {
+      return { code: "pattern", params: { pattern } };
+    }
+  };
+
+export const email: Validator<string, ValidationError> = (value) => {
+  if (value !== "" && !/^[^\s@]+@[^\s@]+\.[^\s@]{2,}$/.test(value)) {
+    return { code: "email", params: {} };
+  }
+};
+
+export const min =
+  (min: number): Validator<number, ValidationError> =>
+  (value) => {
+    if (value < min) {
+      return { code: "min", params: { min } };
+    }
+  };
+
+export const max =
+  (max: number): Validator<number, ValidationError> =>
+  (value) => {
+    if (value > max) {
+      return { code: "max", params: { max } };
+    }
+  };
+
+export const oneOf =
+  <Value>(values: readonly Value[]): Validator<Value, ValidationError> =>
+  (value) => {
+    if (values.indexOf(value) === -1) {
+      return { code: "oneOf", params: { values } };
+    }
+  };
@@ -9,12 +9,16 @@ import { useForm } from "react-ux-form";
 import { Input } from "../components/Input";
 import { Page } from "../components/Page";
 
+const formatCardNumber = (value: string) => (value.match(/\d{1,4}/g) ?? []).join(" ");
+const parseCardNumber = (text: string) => text.replace(/\D/g, "").slice(0, 16);
+
 export const CreditCardForm = () => {
   const { Field, resetForm, submitForm } = useForm({
     cardNumber: {
       strategy: "onSuccessOrBlur",
       initialValue: "",
-      sanitize: (value) => value.trim(),
+      format: formatCardNumber,
+      parse: parseCardNumber,
       validate: (value) => {
         if (!cardValidator.number(value).isValid) {
           return "Card number is invalid";
@@ -106,19 +110,19 @@ export const CreditCardForm = () => {
         }}
       >
         <Field name="cardNumber">
-          {({ error, onBlur, onChange, ref, valid, validating, value }) => (
+          {({ displayValue, error, onBlur, onChangeText, ref, valid, validating }) => (
             <Input
               label="Card number"
               validation="Must be valid"
-              placeholder="4242424242424242"
+              placeholder="4242 4242 4242 4242"
               strategy="onSuccessOrBlur"
               error={error}
               onBlur={onBlur}
-              onChangeText={onChange}
+              onChangeText={onChangeText}
               ref={ref}
               valid={valid}
               validating={validating}
-              value={value}
+              value={displayValue}
             />
           )}
         </Field>
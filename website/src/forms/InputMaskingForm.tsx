@@ -6,32 +6,19 @@ import { useToast } from "@chakra-ui/toast";
 import cardValidator from "card-validator";
 import * as React from "react";
 import { useForm } from "react-ux-form";
-import { Rifm } from "rifm";
 import { Input } from "../components/Input";
 import { Page } from "../components/Page";
 
-const formatCardNumber = (string: string) => {
-  const digits = (string.match(/\d+/g) || []).join("");
-  const chars = digits.split("");
-
-  const res = chars
-    .reduce(
-      (acc, char, index) => ([4, 8, 12, 16].includes(index) ? `${acc} ${char}` : `${acc}${char}`),
-      "",
-    )
-    .substr(0, 19);
-
-  return string.endsWith(" ") && [4, 9, 14, 19].includes(res.length) ? `${res} ` : res;
-};
-
-const appendSpace = (res: string) => ([4, 9, 14].includes(res.length) ? `${res} ` : res);
+const formatCardNumber = (value: string) => (value.match(/\d{1,4}/g) ?? []).join(" ");
+const parseCardNumber = (text: string) => text.replace(/\D/g, "").slice(0, 16);
 
 export const InputMaskingForm = () => {
   const { Field, resetForm, submitForm } = useForm({
     cardNumber: {
       strategy: "onSuccessOrBlur",
       initialValue: "",
-      sanitize: (value) => value.trim(),
+      format: formatCardNumber,
+      parse: parseCardNumber,
       validate: (value) => {
         if (!cardValidator.number(value).isValid) {
           return "Card number is invalid";
@@ -103,31 +90,20 @@ export const InputMaskingForm = () => {
         }}
       >
         <Field name="cardNumber">
-          {({ error, onBlur, onChange, ref, valid, validating, value }) => (
-            <Rifm
-              accept={/\d+/g}
-              mask={19 <= value.length}
-              format={formatCardNumber}
-              value={value}
-              onChange={onChange}
-              append={appendSpace}
-            >
-              {({ value, onChange }) => (
-                <Input
-                  label="Card number"
-                  validation="Must be valid"
-                  placeholder="4242 4242 4242 4242"
-                  strategy="onSuccessOrBlur"
-                  error={error}
-                  onBlur={onBlur}
-                  onChange={onChange}
-                  ref={ref}
-                  valid={valid}
-                  validating={validating}
-                  value={value}
-                />
-              )}
-            </Rifm>
+          {({ displayValue, error, onBlur, onChangeText, ref, valid, validating }) => (
+            <Input
+              label="Card number"
+              validation="Must be valid"
+              placeholder="4242 4242 4242 4242"
+              strategy="onSuccessOrBlur"
+              error={error}
+              onBlur={onBlur}
+              onChangeText={onChangeText}
+              ref={ref}
+              valid={valid}
+              validating={validating}
+              value={displayValue}
+            />
           )}
         </Field>
 